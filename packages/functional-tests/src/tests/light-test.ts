@@ -6,7 +6,6 @@
 import * as MRE from '@microsoft/mixed-reality-extension-sdk';
 
 import { Test } from '../test';
-import delay from '../utils/delay';
 
 // tslint:disable:no-string-literal
 
@@ -49,7 +48,7 @@ export default class LightTest extends Test {
 					props['monkey'].transform.app.position,
 					new MRE.Vector3(0, -Math.PI / 8, 0));
 				sphere.light.color = randomColor();
-				sphere.animateTo({
+				await sphere.animateTo({
 					transform: {
 						local: {
 							position,
@@ -57,7 +56,6 @@ export default class LightTest extends Test {
 						}
 					}
 				}, time, MRE.AnimationEaseCurves.EaseInOutSine);
-				await delay(time * 1000);
 			}
 		};
 
@@ -5,7 +5,7 @@
 
 import events from 'events';
 import * as Restify from 'restify';
-import { Context, ParameterSet } from '..';
+import { BufferHost, Context, ParameterSet } from '..';
 
 /**
  * Adapter options
@@ -18,9 +18,19 @@ export type AdapterOptions = {
 	/**
 	 * @member {string | number} port Optional. When options.server is not supplied and an internal web server is to be
 	 * created, this is the port number it should listen on. If this value is not given, it will attempt to read the
-	 * PORT environment variable, then default to 3901
+	 * PORT environment variable, then default to 3901. Pass 0 to listen on any free port
 	 */
 	port?: string | number;
+	/**
+	 * @member {number} maxUpdateRate Optional. The most times per second that each context sends changes to clients.
+	 * Unlimited by default. @see ContextSettings.maxUpdateRate
+	 */
+	maxUpdateRate?: number;
+	/**
+	 * @member {BufferHost} bufferHost Optional. Serves the buffers that contexts' asset containers load from memory.
+	 * By default, a host is created that serves them from the adapter's web server.
+	 */
+	bufferHost?: BufferHost;
 };
 
 /**
@@ -30,25 +40,41 @@ export type AdapterOptions = {
  */
 export abstract class Adapter {
 	protected emitter = new events.EventEmitter();
+	/** Whether the buffer host is the adapter's own, and so is served from its web server. */
+	private ownsBufferHost = false;
 
 	protected get options() { return this._options; }
 
 	public get server() { return this._options.server; }
 	public set server(value: Restify.Server) { this._options.server = value; }
 	public get port() { return this._options.port; }
+	public get bufferHost() { return this._options.bufferHost; }
 
 	// tslint:disable-next-line:variable-name
 	constructor(protected _options: AdapterOptions) {
 		this._options = { ..._options };
-		this._options.port =
-			this._options.port ||
+		// Port 0 asks the OS for any free port.
+		this._options.port = this._options.port !== undefined ? this._options.port :
 			process.env.port ||
 			process.env.PORT ||
 			3901;
+		if (!this._options.bufferHost) {
+			this._options.bufferHost = new BufferHost();
+			this.ownsBufferHost = true;
+		}
 	}
 
 	public abstract listen(): Promise<Restify.Server>;
 
+	/**
+	 * Serve the adapter's own buffer host from its web server, once it has one.
+	 */
+	protected serveBuffers() {
+		if (this.ownsBufferHost) {
+			this.bufferHost.serve(this.server);
+		}
+	}
+
 	/**
 	 * The onConnection event is raised when a new Context is created for an application session. This happens when the
 	 * first client connects to your application.
@@ -9,7 +9,7 @@ import * as Restify from 'restify';
 import UUID from 'uuid/v4';
 import * as WS from 'ws';
 import { Adapter, AdapterOptions, ClientHandshake, ClientStartup } from '..';
-import { Context, ParameterSet, Pipe, WebSocket } from '../../';
+import { Connection, Context, ParameterSet, Pipe, WebSocket } from '../../';
 import * as Constants from '../../constants';
 import verifyClient from '../../utils/verifyClient';
 import { log } from './../../log';
@@ -78,7 +78,18 @@ export class MultipeerAdapter extends Adapter {
 		}
 	}
 
-	private async getOrCreateSession(sessionId: string, params: ParameterSet) {
+	/**
+	 * Join an engine client to a session over an already established connection, bypassing the WebSocket server.
+	 * Useful for in-process clients, such as the virtual engine client in the `testing` module.
+	 * @param conn The connection to the engine client.
+	 * @param sessionId The session to join. The session is created if it doesn't exist.
+	 * @param params Parameters to pass to the app if a new session is created.
+	 */
+	public connectClient(conn: Connection, sessionId: string, params: ParameterSet = {}) {
+		return this.joinClientToSession(new Client(conn), sessionId, params);
+	}
+
+	private async getOrCreateSession(sessionId: string, params: ParameterSet, client: Client) {
 		let session = this.sessions[sessionId];
 		if (!session) {
 			// Create an in-memory "connection" (If the app were running remotely, we would connect
@@ -87,13 +98,17 @@ export class MultipeerAdapter extends Adapter {
 			// Create a new context for the connection, passing it the remote side of the pipe.
 			const context = new Context({
 				sessionId,
-				connection: pipe.remote
+				connection: pipe.remote,
+				maxUpdateRate: this.options.maxUpdateRate,
+				bufferHost: this.bufferHost
 			});
 			// Start the context listening to network traffic.
 			context.internal.startListening().catch(() => pipe.remote.close());
 			// Instantiate a new session.
+			// The session advertises what its first client supports. Clients joining later that support less are
+			// sent messages they do support instead, by the session's rules.
 			session = this.sessions[sessionId] = new Session(
-				pipe.local, sessionId, this.options.peerAuthoritative);
+				pipe.local, sessionId, this.options.peerAuthoritative, client.capabilities);
 			// Handle session close.
 			const $this = this;
 			session.on('close', () => delete $this.sessions[sessionId]);
@@ -108,6 +123,8 @@ export class MultipeerAdapter extends Adapter {
 	}
 
 	private startListening() {
+		this.serveBuffers();
+
 		// Create a server for upgrading HTTP connections to WebSockets
 		const wss = new WS.Server({ server: this.server, verifyClient });
 
@@ -146,13 +163,14 @@ export class MultipeerAdapter extends Adapter {
 			// Handshake with the client.
 			const handshake = new ClientHandshake(client, sessionId);
 			await handshake.run();
+			client.capabilities = handshake.capabilities;
 
 			// Measure the connection quality and wait for sync-request message.
 			const startup = new ClientStartup(client, handshake.syncRequest);
 			await startup.run();
 
 			// Get the session for the sessionId.
-			const session = await this.getOrCreateSession(sessionId, params);
+			const session = await this.getOrCreateSession(sessionId, params, client);
 
 			// Join the client to the session.
 			await session.join(client);
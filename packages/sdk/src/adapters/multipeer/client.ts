@@ -49,6 +49,8 @@ export class Client extends EventEmitter {
 	public get userExclusiveMessages() { return this._userExclusiveMessages; }
 
 	public userId: string;
+	/** The optional protocol messages the client advertised support for during the handshake. */
+	public capabilities: Payloads.ClientCapability[] = [];
 
 	/**
 	 * Creates a new Client instance
@@ -110,7 +112,12 @@ export class Client extends EventEmitter {
 
 	public send(message: Message, promise?: ExportedPromise) {
 		if (this.protocol) {
-			this.protocol.sendMessage(message, promise);
+			const rule = Rules[message.payload.type] || MissingRule;
+			const beforeSendMessageToClient = rule.client.beforeSendMessageToClient || (() => message);
+			message = beforeSendMessageToClient(this.session, this, message, promise);
+			if (message) {
+				this.protocol.sendMessage(message, promise);
+			}
 		} else {
 			// tslint:disable-next-line:no-console
 			log.error('network', `[ERROR] No protocol for message send: ${message.payload.type}`);
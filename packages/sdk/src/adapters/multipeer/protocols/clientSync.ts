@@ -212,31 +212,67 @@ export class ClientSync extends Protocols.Protocol {
 	 * Driver for the `sync-animations` synchronization stage.
 	 */
 	public 'stage:sync-animations' = async () => {
+		// The session follows the playback of the animations the app created or controls, so their states are known
+		// without asking a peer.
+		const animationStates = new Map<string, Payloads.SetAnimationState>();
+		for (const syncActor of this.client.session.actors) {
+			const clocks = syncActor.animationClocks || {};
+			for (const animationName of Object.keys(clocks)) {
+				const state = clocks[animationName].state;
+				if (state.enabled) {
+					// Account for latency on the joining peer's connection.
+					state.time += state.speed * this.conn.quality.latencyMs.value / 2000;
+				}
+				animationStates.set(`${syncActor.actorId}/${animationName}`, {
+					type: 'set-animation-state',
+					actorId: syncActor.actorId,
+					animationName,
+					state
+				});
+			}
+		}
+		// The authoritative peer's report is still the source of truth, and includes animations the session never saw,
+		// such as clips playing on their own. The session's states fill in anything it leaves out.
+		for (const peerState of await this.queryAnimationStates()) {
+			const key = `${peerState.actorId}/${peerState.animationName}`;
+			const sessionState = animationStates.get(key);
+			animationStates.set(key, {
+				...peerState,
+				state: { ...(sessionState && sessionState.state), ...peerState.state }
+			});
+		}
+		if (animationStates.size) {
+			super.sendPayload({
+				type: 'sync-animations',
+				animationStates: [...animationStates.values()]
+			} as Payloads.SyncAnimations);
+		}
+	}
+
+	/**
+	 * Request the current state of all animations from the authoritative peer. Resolves with none if there is no
+	 * such peer, or it doesn't reply.
+	 */
+	private queryAnimationStates() {
 		const authoritativeClient = this.client.session.authoritativeClient;
 		if (!authoritativeClient) {
-			return Promise.resolve();
+			return Promise.resolve([] as Payloads.SetAnimationState[]);
 		}
-		return new Promise<void>((resolve, reject) => {
-			// Request the current state of all animations from the authoritative client.
-			// TODO: Improve this (don't rely on a peer).
+		return new Promise<Payloads.SetAnimationState[]>(resolve => {
 			authoritativeClient.sendPayload({
 				type: 'sync-animations',
 			} as Payloads.SyncAnimations, {
-					resolve: (payload: Payloads.SyncAnimations) => {
-						// We've received the sync-animations payload from the authoritative
-						// client, now pass it to the joining client.
-						for (const animationState of payload.animationStates) {
-							// Account for latency on the authoritative peer's connection.
-							animationState.state.time += authoritativeClient.conn.quality.latencyMs.value / 2000;
-							// Account for latency on the joining peer's connection.
-							animationState.state.time += this.conn.quality.latencyMs.value / 2000;
-						}
-						// Pass with an empty reply handler to account for an edge case that will go away once
-						// animation synchronization is refactored.
-						super.sendPayload(payload);
-						resolve();
-					}, reject
-				});
+				resolve: (payload: Payloads.SyncAnimations) => {
+					const animationStates = payload.animationStates || [];
+					for (const animationState of animationStates) {
+						// Account for latency on the authoritative peer's connection, and the joining peer's.
+						animationState.state.time += (authoritativeClient.conn.quality.latencyMs.value +
+							this.conn.quality.latencyMs.value) / 2000;
+					}
+					resolve(animationStates);
+				},
+				reject: () => resolve([])
+			});
 		});
 	}
 
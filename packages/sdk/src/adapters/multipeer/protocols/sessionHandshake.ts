@@ -12,7 +12,7 @@ import * as Payloads from '../../../types/network/payloads';
  * Protocol for handling handshake with the app instance (Session is a client of App)
  */
 export class SessionHandshake extends Protocols.Protocol {
-	constructor(session: Session) {
+	constructor(private session: Session) {
 		super(session.conn);
 		// Behave like a client-side endpoint (record latency, respond to heartbeats).
 		this.use(new Protocols.ClientPreprocessing(this));
@@ -21,7 +21,10 @@ export class SessionHandshake extends Protocols.Protocol {
 	/** @override */
 	public startListening() {
 		super.startListening();
-		this.sendPayload({ type: 'handshake' } as Payloads.Handshake);
+		this.sendPayload({
+			type: 'handshake',
+			capabilities: this.session.capabilities
+		} as Payloads.Handshake);
 	}
 
 	/** @private */
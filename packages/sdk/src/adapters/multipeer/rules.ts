@@ -4,9 +4,11 @@
  */
 
 import deepmerge from 'deepmerge';
+import UUID from 'uuid/v4';
 import { ActiveMediaInstance, Client, Session, SynchronizationStage } from '.';
 import { MediaCommand, Message, WebSocket } from '../..';
 import { log } from '../../log';
+import { AnimationClock } from '../../types/internal/animationClock';
 import * as Payloads from '../../types/network/payloads';
 import { Asset } from '../../types/runtime';
 import { ExportedPromise } from '../../utils/exportedPromise';
@@ -83,6 +85,17 @@ export type Rule = {
 		 */
 		beforeQueueMessageForClient: (
 			session: Session, client: Client, message: any, promise: ExportedPromise) => Message;
+		/**
+		 * Called before a message is sent or queued for a client, to adapt it to what the client supports.
+		 * @param session The current session.
+		 * @param client The client to receive the message.
+		 * @param message The message to send.
+		 * @param promise Optional promise to complete once the reply message is received.
+		 * @returns Return the message if you want it to continue to be processed. Return null/undefined
+		 * to stop processing of the message.
+		 */
+		beforeSendMessageToClient: (
+			session: Session, client: Client, message: any, promise: ExportedPromise) => Message;
 		/**
 		 * Called twice before a message is sent: first to determine if a message is user-dependent
 		 * (it is queued until user-join if so), and second to determine if the joined user is the
@@ -140,6 +153,10 @@ export const DefaultRule: Rule = {
 			session: Session, client: Client, message: any, promise: ExportedPromise) => {
 			return message;
 		},
+		beforeSendMessageToClient: (
+			session: Session, client: Client, message: any, promise: ExportedPromise) => {
+			return message;
+		},
 		shouldSendToUser: () => null,
 	},
 	session: {
@@ -486,6 +503,9 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 						session.cacheAssetCreation(asset.id, message.replyToId,
 							(asset.sound && asset.sound.duration) ||
 							(asset.videoStream && asset.videoStream.duration));
+						if (asset.prefab && asset.prefab.animations) {
+							session.assetSet[asset.id].animations = asset.prefab.animations;
+						}
 					}
 					return message;
 				} else if (message.payload.failureMessage && message.payload.failureMessage.length) {
@@ -528,6 +548,9 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 					const enabled = message.payload.initialState && !!message.payload.initialState.enabled;
 					syncActor.createdAnimations = syncActor.createdAnimations || [];
 					syncActor.createdAnimations.push({ message, enabled });
+					syncActor.animationClocks = syncActor.animationClocks || {};
+					syncActor.animationClocks[message.payload.animationName] =
+						new AnimationClock(message.payload as Payloads.CreateAnimation);
 				}
 				return message;
 			}
@@ -558,6 +581,81 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 	// ========================================================================
 	'create-empty': CreateActorRule,
 
+	// ========================================================================
+	'create-empty-batch': {
+		...CreateActorRule,
+		client: {
+			...DefaultRule.client,
+			beforeSendMessageToClient: (
+				session: Session,
+				client: Client,
+				message: Message<Payloads.CreateEmptyBatch>,
+				promise: ExportedPromise
+			) => {
+				if (client.capabilities.includes('create-empty-batch')) {
+					return message;
+				}
+				// Clients that joined without support for batches are sent a creation message per actor, parents
+				// first, and their replies are combined into one reply to the batch.
+				const replies = message.payload.actors.map(actor => new Promise<Payloads.ObjectSpawned>(resolve => {
+					client.send({
+						payload: {
+							type: 'create-empty',
+							actor
+						} as Payloads.CreateEmpty
+					}, {
+						resolve: (reply: Payloads.ObjectSpawned | Payloads.OperationResult) => {
+							resolve(reply.type === 'operation-result'
+								? { actors: [], result: reply } as Payloads.ObjectSpawned
+								: reply);
+						},
+						// The client left, or isn't meant to see these actors.
+						reject: () => resolve(undefined)
+					});
+				}));
+				Promise.all(replies).then(spawned => {
+					if (spawned.some(reply => !reply) || client.session !== session) {
+						return;
+					}
+					const failed = spawned.find(reply => reply.result.resultCode === 'error');
+					client.emit('recv', client, {
+						id: UUID(),
+						replyToId: message.id,
+						payload: {
+							type: 'object-spawned',
+							actors: spawned.reduce((actors, reply) => actors.concat(reply.actors), []),
+							result: failed ? failed.result : spawned[0].result
+						} as Payloads.ObjectSpawned
+					} as Message);
+				}).catch(reason => log.error('network', reason));
+				return undefined;
+			},
+			shouldSendToUser: (message: Message<Payloads.CreateEmptyBatch>, userId, session, client) => {
+				// All actors in the batch share the root's exclusivity.
+				const exclusiveUser = session.actorSet[message.payload.actors[0].id].exclusiveToUser;
+				return exclusiveUser ? exclusiveUser === userId : null;
+			}
+		},
+		session: {
+			...DefaultRule.session,
+			beforeReceiveFromApp: (
+				session: Session,
+				message: Message<Payloads.CreateEmptyBatch>
+			) => {
+				// Cache a separate creation message for each actor, so late joiners can be synced actor by actor.
+				for (const actor of message.payload.actors) {
+					session.cacheInitializeActorMessage({
+						payload: {
+							type: 'create-empty',
+							actor
+						} as Payloads.CreateEmpty
+					});
+				}
+				return message;
+			}
+		}
+	},
+
 	// ========================================================================
 	'create-from-library': CreateActorRule,
 
@@ -657,6 +755,12 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 				if (syncActor) {
 					syncActor.activeInterpolations = syncActor.activeInterpolations || [];
 					syncActor.activeInterpolations.push(deepmerge({}, message.payload));
+					// An interpolation plays like a one-shot animation from its start to its end.
+					syncActor.animationClocks = syncActor.animationClocks || {};
+					syncActor.animationClocks[message.payload.animationName] = new AnimationClock({
+						keyframes: [{ time: 0, value: {} }, { time: message.payload.duration, value: {} }],
+						initialState: { enabled: message.payload.enabled }
+					});
 				}
 				return message;
 			}
@@ -854,14 +958,23 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 				session: Session,
 				message: Message<Payloads.SetAnimationState>
 			) => {
+				const syncActor = session.actorSet[message.payload.actorId];
+				const clock = syncActor && session.findAnimationClock(syncActor, message.payload.animationName);
+				if (clock) {
+					clock.setState(message.payload.state);
+				}
 				// If the app enabled or disabled the animation, update our local sync state to match.
 				if (message.payload.state.enabled !== undefined) {
-					const syncActor = session.actorSet[message.payload.actorId];
 					if (syncActor) {
 						const animation = session.findAnimation(syncActor, message.payload.animationName);
 						if (animation) {
 							animation.enabled = message.payload.state.enabled;
 						}
+						// A disabled interpolation won't be resumed, so new clients shouldn't start it.
+						if (!message.payload.state.enabled) {
+							syncActor.activeInterpolations = (syncActor.activeInterpolations || []).filter(
+								item => item.animationName !== message.payload.animationName);
+						}
 					}
 				}
 				return message;
@@ -880,6 +993,10 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 						// If the animation was disabled on the client, notify other clients and also
 						// update our local sync state.
 						if (message.payload.state.enabled !== undefined && !message.payload.state.enabled) {
+							const clock = session.findAnimationClock(syncActor, message.payload.animationName);
+							if (clock) {
+								clock.setState(message.payload.state);
+							}
 							const createdAnimation = (syncActor.createdAnimations || []).filter(
 								item => item.message.payload.animationName === message.payload.animationName).shift();
 							if (createdAnimation) {
@@ -1115,12 +1232,71 @@ export const Rules: { [id in Payloads.PayloadType]: Rule } = {
 				session: Session,
 				message: Message<Payloads.UnloadAssets>
 			) => {
-				session.cacheAssetUnload(message.payload.containerId);
+				session.cacheAssetUnload(message.payload.containerId, message.payload.assetIds);
 				return message;
 			}
 		}
 	},
 
+	// ========================================================================
+	'update-batch': {
+		...DefaultRule,
+		synchronization: {
+			stage: 'never',
+			before: 'ignore',
+			during: 'ignore',
+			after: 'ignore'
+		},
+		client: {
+			...DefaultRule.client,
+			beforeSendMessageToClient: (
+				session: Session,
+				client: Client,
+				message: Message<Payloads.UpdateBatch>,
+				promise: ExportedPromise
+			) => {
+				// Clients still synchronizing, or that can't apply batches, are sent the messages one at a time.
+				if (!client.isJoined() || !client.capabilities.includes('update-batch')) {
+					for (const batched of message.payload.messages) {
+						client.send({ ...batched });
+					}
+					return undefined;
+				}
+				// Otherwise each message is handled as if it had been sent on its own, and those for this client
+				// are sent together.
+				const messages: Message[] = [];
+				for (const batched of message.payload.messages) {
+					const rule = Rules[batched.payload.type] || MissingRule;
+					const forUser = rule.client.shouldSendToUser(batched, client.userId, session, client);
+					if (forUser === null || forUser === true && !!client.userId) {
+						const adapted = rule.client.beforeSendMessageToClient(session, client, { ...batched }, undefined);
+						if (adapted) {
+							messages.push(adapted);
+						}
+					} else if (!client.userId) {
+						// Held until the client's user joins.
+						client.send({ ...batched });
+					}
+				}
+				if (messages.length) {
+					return { ...message, payload: { ...message.payload, messages } };
+				}
+			}
+		},
+		session: {
+			...DefaultRule.session,
+			beforeReceiveFromApp: (session: Session, message: Message<Payloads.UpdateBatch>) => {
+				// Each message has its own rule for caching and routing.
+				const messages = message.payload.messages
+					.map(batched => session.preprocessFromApp(batched))
+					.filter(batched => !!batched);
+				if (messages.length) {
+					return { ...message, payload: { ...message.payload, messages } };
+				}
+			}
+		}
+	},
+
 	// ========================================================================
 	'user-joined': {
 		...ClientOnlyRule,
@@ -10,8 +10,10 @@ import {
 	SessionHandshake, SessionSync, SyncActor, SyncAsset
 } from '.';
 import { Connection, EventedConnection, Message, UserLike } from '../..';
+import { ZeroGuid } from '../../constants';
 import { log } from '../../log';
 import * as Protocols from '../../protocols';
+import { AnimationClock } from '../../types/internal/animationClock';
 import * as Payloads from '../../types/network/payloads';
 
 type AssetCreationMessage = Message<Payloads.LoadAssets | Payloads.CreateAsset>;
@@ -47,11 +49,14 @@ export class Session extends EventEmitter {
 	public get userSet() { return this._userSet; }
 
 	public get rootActors() {
-		return Object.values(this._actorSet)
-			.filter(actor => !this._actorSet[actor.actorId].initialization.message.payload.actor.parentId);
+		return Object.values(this._actorSet).filter(actor => {
+			const parentId = this._actorSet[actor.actorId].initialization.message.payload.actor.parentId;
+			return !parentId || parentId === ZeroGuid;
+		});
 	}
 	public get authoritativeClient() { return this.clients.find(client => client.authoritative); }
 	public get peerAuthoritative() { return this._peerAuthoritative; }
+	public get capabilities() { return this._capabilities; }
 
 	public client = (clientId: string) => this._clientSet[clientId];
 	public actor = (actorId: string) => this._actorSet[actorId];
@@ -68,8 +73,14 @@ export class Session extends EventEmitter {
 	/**
 	 * Creates a new Session instance
 	 */
-	// tslint:disable-next-line:variable-name
-	constructor(private _conn: Connection, private _sessionId: string, private _peerAuthoritative: boolean) {
+	// tslint:disable:variable-name
+	constructor(
+		private _conn: Connection,
+		private _sessionId: string,
+		private _peerAuthoritative: boolean,
+		private _capabilities: Payloads.ClientCapability[] = []
+	) {
+	// tslint:enable:variable-name
 		super();
 		this.recvFromClient = this.recvFromClient.bind(this);
 		this.recvFromApp = this.recvFromApp.bind(this);
@@ -245,6 +256,25 @@ export class Session extends EventEmitter {
 		return (syncActor.createdAnimations || []).find(item => item.message.payload.animationName === animationName);
 	}
 
+	/**
+	 * Find the clock following an animation's playback. Clocks for the animation clips of the prefab an actor was
+	 * spawned from are created the first time they're needed.
+	 */
+	public findAnimationClock(syncActor: Partial<SyncActor>, animationName: string): AnimationClock {
+		syncActor.animationClocks = syncActor.animationClocks || {};
+		if (!syncActor.animationClocks[animationName] && syncActor.initialization) {
+			const payload = syncActor.initialization.message.payload as Payloads.CreateFromPrefab;
+			const prefab = payload.type === 'create-from-prefab' && this.assetSet[payload.prefabId];
+			const clip = prefab && (prefab.animations || []).find(item => item.name === animationName);
+			if (clip) {
+				syncActor.animationClocks[animationName] = new AnimationClock({
+					keyframes: [{ time: 0, value: {} }, { time: clip.duration, value: {} }]
+				});
+			}
+		}
+		return syncActor.animationClocks[animationName];
+	}
+
 	public isAnimating(syncActor: Partial<SyncActor>): boolean {
 		if ((syncActor.createdAnimations || []).some(item => item.enabled)) {
 			return true;
@@ -345,7 +375,19 @@ export class Session extends EventEmitter {
 		}
 	}
 
-	public cacheAssetUnload(containerId: string) {
+	public cacheAssetUnload(containerId: string, assetIds?: string[]) {
+		if (assetIds) {
+			// Only assets the app created on their own can be unloaded individually, so drop their creation messages.
+			const assetCreators = this.assetCreators.filter(c => c.payload.type === 'create-asset' &&
+				assetIds.includes((c.payload as Payloads.CreateAsset).definition.id));
+			for (const creator of assetCreators) {
+				delete this.assetCreatorSet[creator.id];
+			}
+			for (const assetId of assetIds) {
+				delete this.assetSet[assetId];
+			}
+			return;
+		}
 		const creators = this.assetCreators.filter(c => c.payload.containerId === containerId);
 		for (const creator of creators) {
 			// un-cache creation message
@@ -4,6 +4,7 @@
  */
 
 import { BehaviorType, Message } from '../..';
+import { AnimationClock } from '../../types/internal/animationClock';
 import * as Payloads from '../../types/network/payloads';
 
 /** @hidden */
@@ -42,6 +43,8 @@ export type SyncActor = {
 	createdAnimations: CreateAnimation[];
 	activeMediaInstances: ActiveMediaInstance[];
 	activeInterpolations: Payloads.InterpolateActor[];
+	/** The playback of the actor's animations and interpolations, followed so joining clients can be synced. */
+	animationClocks: { [animationName: string]: AnimationClock };
 	behavior: BehaviorType;
 	grabbedBy: string;
 	exclusiveToUser: string;
@@ -3,7 +3,7 @@
  * Licensed under the MIT License.
  */
 
-import { Message } from '../..';
+import { Message, PrefabAnimationLike } from '../..';
 import * as Payloads from '../../types/network/payloads';
 
 export class SyncAsset {
@@ -14,4 +14,6 @@ export class SyncAsset {
 	public update: Message<Payloads.AssetUpdate>;
 	/** Used only for runtime instances (like MediaInstances) that need to know the duration of the asset */
 	public duration?: number;
+	/** The animation clips of a prefab, which actors spawned from it can play */
+	public animations?: PrefabAnimationLike[];
 }
@@ -60,6 +60,8 @@ export class WebSocketAdapter extends Adapter {
 	}
 
 	private startListening() {
+		this.serveBuffers();
+
 		// Create a server for upgrading HTTP connections to WebSockets.
 		const wss = new WS.Server({ server: this.server, verifyClient });
 
@@ -83,7 +85,9 @@ export class WebSocketAdapter extends Adapter {
 			// Create a new context for the connection.
 			const context = new Context({
 				sessionId,
-				connection
+				connection,
+				maxUpdateRate: this.options.maxUpdateRate,
+				bufferHost: this.bufferHost
 			});
 
 			// Start the context listening to network traffic.
@@ -0,0 +1,19 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Indicates how an animation combines with the animations on lower layers.
+ */
+export enum AnimationBlendMode {
+	/**
+	 * Replace the values of lower layers, in proportion to the animation's weight.
+	 */
+	Override = 'override',
+
+	/**
+	 * Add to the values of lower layers, scaled by the animation's weight.
+	 */
+	Additive = 'additive',
+}
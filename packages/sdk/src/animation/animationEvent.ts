@@ -3,8 +3,20 @@
  * Licensed under the MIT License.
  */
 
+/**
+ * A named point in an animation's timeline. See [[Actor.onAnimationEvent]].
+ */
 export interface AnimationEvent {
+	/**
+	 * The name of the event.
+	 */
 	name: string;
+	/**
+	 * An arbitrary value passed along with the event.
+	 */
 	value: string;
+	/**
+	 * The time in the animation at which the event is raised, in seconds.
+	 */
 	time: number;
 }
@@ -0,0 +1,25 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Indicates how an animated value changes between one keyframe and the next.
+ */
+export enum AnimationInterpolation {
+	/**
+	 * Hold the keyframe's value until the next keyframe, then jump to the next value.
+	 */
+	Step = 'step',
+
+	/**
+	 * Move in a straight line towards the next keyframe's value.
+	 */
+	Linear = 'linear',
+
+	/**
+	 * Follow a smooth curve through the values of the surrounding keyframes, avoiding sudden changes of direction at
+	 * each keyframe.
+	 */
+	Cubic = 'cubic',
+}
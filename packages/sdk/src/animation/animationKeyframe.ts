@@ -3,9 +3,51 @@
  * Licensed under the MIT License.
  */
 
-import { ActorLike } from '..';
+import { AnimationInterpolation } from '.';
+import { ActorLike, LightLike, MaterialLike, TextLike } from '..';
+
+/**
+ * The properties a keyframe can animate. Between keyframes, numbers, vectors and colors are interpolated
+ * component-wise, and rotations are interpolated spherically.
+ */
+export type AnimationKeyframeValue = Partial<Pick<ActorLike, 'transform'>> & {
+	/**
+	 * The color, intensity and range of the actor's light.
+	 */
+	light?: Partial<Pick<LightLike, 'color' | 'intensity' | 'range'>>;
+	/**
+	 * The color and height of the actor's text.
+	 */
+	text?: Partial<Pick<TextLike, 'color' | 'height'>>;
+	/**
+	 * The color, main texture offset and scale, emissive color, metallic and roughness factors, normal scale and
+	 * occlusion strength of the actor's material. The material is shared with any other actors using it, so they are
+	 * animated too.
+	 */
+	material?: Partial<Pick<MaterialLike, 'color' | 'mainTextureOffset' | 'mainTextureScale' | 'emissiveColor' |
+		'metallic' | 'roughness' | 'normalScale' | 'occlusionStrength'>>;
+	/**
+	 * The volume of the sounds and video streams playing on the actor.
+	 */
+	media?: { volume?: number };
+};
 
 export interface AnimationKeyframe {
-	value: Partial<ActorLike>;
+	/**
+	 * The values of the animated properties at this keyframe. Transforms must be given in local space.
+	 */
+	value: AnimationKeyframeValue;
+	/**
+	 * The time of this keyframe, in seconds from the start of the animation.
+	 */
 	time: number;
+	/**
+	 * How values change from this keyframe to the next. Linear by default.
+	 */
+	interpolation?: AnimationInterpolation;
+	/**
+	 * The cubic-bezier curve parameters mapping progress from this keyframe to the next, to speed up or slow down
+	 * the change in values. @see AnimationEaseCurves for predefined values. Ignored for step interpolation.
+	 */
+	easing?: number[];
 }
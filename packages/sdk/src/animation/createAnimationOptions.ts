@@ -19,7 +19,7 @@ export type CreateAnimationOptions = {
 	 */
 	keyframes: AnimationKeyframe[],
 	/**
-	 * The animation events. (Not implemented yet)
+	 * The animation events, raised as playback passes their times.
 	 */
 	events?: AnimationEvent[],
 	/**
@@ -4,9 +4,13 @@
  */
 
 export * from './animationWrapMode';
+export * from './animationBlendMode';
+export * from './animationInterpolation';
 export * from './animationKeyframe';
 export * from './animationEvent';
 export * from './animationState';
 export * from './createAnimationOptions';
+export * from './pathAnimationOptions';
 export * from './setAnimationStateOptions';
 export * from './animationEaseCurves';
+export * from './timeline';
@@ -0,0 +1,51 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { CreateAnimationOptions } from '.';
+import { Vector3Like } from '..';
+
+/**
+ * Indicates how an actor following a path is turned as it moves.
+ */
+export enum PathOrientation {
+	/**
+	 * Leave the actor's rotation alone.
+	 */
+	None = 'none',
+
+	/**
+	 * Face the direction of travel, keeping the actor's up axis as close to the `up` direction as possible.
+	 */
+	Tangent = 'tangent',
+
+	/**
+	 * Face the direction of travel, with the actor's up axis along the path's normal, so the actor banks and twists
+	 * with the path.
+	 */
+	Normal = 'normal',
+}
+
+/**
+ * Parameters to the `actor.createPathAnimation` call.
+ */
+export type PathAnimationOptions = Pick<CreateAnimationOptions, 'events' | 'wrapMode' | 'initialState'> & {
+	/**
+	 * The time to travel the whole path, in seconds. Either this or `speed` must be given.
+	 */
+	duration?: number;
+	/**
+	 * The speed to travel along the path, in units per second. Either this or `duration` must be given.
+	 */
+	speed?: number;
+	/**
+	 * How the actor is turned as it moves. Defaults to `PathOrientation.None`.
+	 */
+	orientation?: PathOrientation;
+	/**
+	 * The up direction, in the actor's parent space. Sets the first normal of paths made from curves or points.
+	 * Defaults to `Vector3.Up()`.
+	 */
+	up?: Vector3Like;
+};
@@ -3,6 +3,8 @@
  * Licensed under the MIT License.
  */
 
+import { AnimationBlendMode, AnimationWrapMode } from '.';
+
 /**
  * Parameters to the `actor.setAnimationState` call.
  */
@@ -19,4 +21,22 @@ export type SetAnimationStateOptions = {
 	 * Whether to enable or disable the animation.
 	 */
 	enabled?: boolean,
+	/**
+	 * How the animation behaves when it reaches the end.
+	 */
+	wrapMode?: AnimationWrapMode,
+	/**
+	 * How much the animation contributes to the final pose, from 0 to 1. Animations on the same layer share the pose
+	 * by weight. Defaults to 1.
+	 */
+	weight?: number,
+	/**
+	 * The layer the animation is blended on. Higher layers are applied over lower ones, according to their blend
+	 * mode. Defaults to 0.
+	 */
+	layer?: number,
+	/**
+	 * How the animation combines with lower layers. Defaults to override.
+	 */
+	blendMode?: AnimationBlendMode,
 };
@@ -0,0 +1,368 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import UUID from 'uuid/v4';
+import { AnimationEaseCurves } from '.';
+import { Actor, ActorLike, BezierCurve } from '..';
+import { log } from '../log';
+
+type Tween = { kind: 'tween', actor: Actor, value: Partial<ActorLike>, duration: number, curve: number[] };
+type Wait = { kind: 'wait', duration: number };
+type Call = { kind: 'call', callback: () => any };
+type Group = { kind: 'group', parallel: boolean, steps: TimelineStep[] };
+type TimelineStep = Tween | Wait | Call | Group;
+
+/** A tween or callback, scheduled at absolute times from the start of the timeline. */
+type TimelineEntry = {
+	start: number;
+	end: number;
+	step: Tween | Call;
+	/** For tweens, the animated leaf values by path, e.g. `transform.local.position.x`. */
+	values?: { [path: string]: number };
+};
+
+/**
+ * A Timeline sequences actor interpolations, delays and callbacks, running them one after another or side by side,
+ * across any number of actors. Build it up with [[tween]], [[wait]], [[call]], [[parallel]] and [[sequence]], then
+ * [[play]] it. Interpolations are run on the clients with [[Actor.animateTo]].
+ */
+export class Timeline {
+	private steps: TimelineStep[] = [];
+	private entries: TimelineEntry[];
+	private position = 0;
+	private basisTime: number;
+	private playing = false;
+	/** Incremented whenever playback stops, so callbacks from earlier playback can be ignored. */
+	private generation = 0;
+	private timers: NodeJS.Timer[] = [];
+	private running: Array<{ actor: Actor, animationName: string }> = [];
+	private pending = 0;
+	private resolvePlay: () => void;
+	private playPromise: Promise<void>;
+	/** The values of the animated properties before the timeline first played, by actor and path. */
+	private initialValues: Map<Actor, { [path: string]: number }>;
+
+	/** The total length of the timeline, in seconds. */
+	public get duration() {
+		return this.compile().reduce((end, entry) => Math.max(end, entry.end), 0);
+	}
+
+	/** The current playback time, in seconds. */
+	public get time() {
+		return this.playing ?
+			Math.min(this.position + (Date.now() - this.basisTime) / 1000, this.duration) :
+			this.position;
+	}
+
+	/** Whether the timeline is playing. */
+	public get isPlaying() { return this.playing; }
+
+	/**
+	 * Interpolate an actor's properties to the given value, after the previous step. See [[Actor.animateTo]].
+	 * @param actor The actor to animate.
+	 * @param value The desired final state of the actor.
+	 * @param duration The length of the interpolation, in seconds.
+	 * @param curve The cubic-bezier curve parameters. @see AnimationEaseCurves for predefined values.
+	 */
+	public tween(
+		actor: Actor, value: Partial<ActorLike>, duration: number, curve = AnimationEaseCurves.Linear
+	): this {
+		return this.add({ kind: 'tween', actor, value, duration, curve });
+	}
+
+	/**
+	 * Wait before starting the next step.
+	 * @param duration How long to wait, in seconds.
+	 */
+	public wait(duration: number): this {
+		return this.add({ kind: 'wait', duration });
+	}
+
+	/**
+	 * Call a function after the previous step. Errors it throws are logged, and don't stop the timeline.
+	 * @param callback The function to call.
+	 */
+	public call(callback: () => any): this {
+		return this.add({ kind: 'call', callback });
+	}
+
+	/**
+	 * Run steps at the same time. The next step starts once all of them have finished.
+	 * @param build A function adding the steps to run, to the timeline it's passed.
+	 */
+	public parallel(build: (timeline: Timeline) => void): this {
+		return this.addGroup(true, build);
+	}
+
+	/**
+	 * Run steps one after another, e.g. as one of a group of parallel steps.
+	 * @param build A function adding the steps to run, to the timeline it's passed.
+	 */
+	public sequence(build: (timeline: Timeline) => void): this {
+		return this.addGroup(false, build);
+	}
+
+	/**
+	 * Play the timeline from its current time, or from the start if it has finished.
+	 * @returns A promise that resolves when the timeline has finished, including all of its interpolations, or when
+	 * it is cancelled.
+	 */
+	public play(): Promise<void> {
+		if (!this.playing) {
+			if (this.position > 0 && this.position >= this.duration) {
+				this.seek(0);
+			}
+			this.captureInitialValues();
+			this.playPromise = new Promise<void>(resolve => this.resolvePlay = resolve);
+			this.start();
+		}
+		return this.playPromise;
+	}
+
+	/**
+	 * Stop playback, leaving actors where they are. Interpolations in progress are disabled.
+	 */
+	public cancel() {
+		if (this.playing) {
+			this.halt();
+			this.resolvePlay();
+		}
+	}
+
+	/**
+	 * Jump to the given time. Actors are moved to where the timeline would have put them by then, and interpolations
+	 * in progress at that time resume from there. Callbacks between the current time and the new one are skipped.
+	 * @param time The time to jump to, in seconds.
+	 */
+	public seek(time: number) {
+		const wasPlaying = this.playing;
+		this.halt();
+		this.captureInitialValues();
+		this.position = Math.min(Math.max(time, 0), this.duration);
+		this.applyValuesAt(this.position);
+		if (wasPlaying) {
+			this.start();
+		}
+	}
+
+	private add(step: TimelineStep): this {
+		this.steps.push(step);
+		this.entries = undefined;
+		return this;
+	}
+
+	private addGroup(parallel: boolean, build: (timeline: Timeline) => void): this {
+		const group = new Timeline();
+		build(group);
+		return this.add({ kind: 'group', parallel, steps: group.steps });
+	}
+
+	/** Flatten the steps into entries with absolute times. */
+	private compile() {
+		if (!this.entries) {
+			this.entries = [];
+			this.compileGroup(this.steps, false, 0);
+		}
+		return this.entries;
+	}
+
+	private compileGroup(steps: TimelineStep[], parallel: boolean, start: number): number {
+		let end = start;
+		for (const step of steps) {
+			const stepStart = parallel ? start : end;
+			let stepEnd = stepStart;
+			switch (step.kind) {
+				case 'tween':
+					stepEnd = stepStart + step.duration;
+					this.entries.push({ start: stepStart, end: stepEnd, step, values: flatten(step.value, '') });
+					break;
+				case 'call':
+					this.entries.push({ start: stepStart, end: stepStart, step });
+					break;
+				case 'wait':
+					stepEnd = stepStart + step.duration;
+					break;
+				case 'group':
+					stepEnd = this.compileGroup(step.steps, step.parallel, stepStart);
+					break;
+				default:
+					break;
+			}
+			end = Math.max(end, stepEnd);
+		}
+		return end;
+	}
+
+	/** Schedule the entries from the current position. */
+	private start() {
+		const generation = this.generation;
+		const from = this.position;
+		this.playing = true;
+		this.basisTime = Date.now();
+		this.pending = 1;
+		const done = () => {
+			if (generation === this.generation && --this.pending === 0) {
+				this.playing = false;
+				this.position = this.duration;
+				this.generation++;
+				this.resolvePlay();
+			}
+		};
+
+		for (const entry of this.compile()) {
+			const step = entry.step;
+			// Skip what's already happened, but finish tweens that are in progress.
+			if (entry.start < from && (step.kind === 'call' || entry.end <= from)) {
+				continue;
+			}
+			this.pending++;
+			this.timers.push(setTimeout(() => {
+				if (step.kind === 'call') {
+					try {
+						step.callback();
+					} catch (e) {
+						log.error('app', e);
+					}
+					done();
+				} else {
+					// Tweens in progress when playback started only run for what's left of them.
+					const animationName = UUID();
+					const running = { actor: step.actor, animationName };
+					this.running.push(running);
+					// Destroyed actors don't hold up the rest of the timeline.
+					step.actor.context.internal.animateTo(step.actor.id, step.value,
+						entry.end - Math.max(entry.start, from), step.curve, animationName)
+						.then(() => {
+							this.running = this.running.filter(item => item !== running);
+							done();
+						})
+						.catch(err => log.error('app', err));
+				}
+			}, Math.max(entry.start - from, 0) * 1000));
+		}
+		this.timers.push(setTimeout(done, (this.duration - from) * 1000));
+	}
+
+	/** Stop playback at the current time, without resolving the play promise. */
+	private halt() {
+		if (!this.playing) {
+			return;
+		}
+		this.position = this.time;
+		this.playing = false;
+		this.generation++;
+		for (const timer of this.timers) {
+			clearTimeout(timer);
+		}
+		this.timers = [];
+		for (const { actor, animationName } of this.running) {
+			if (actor.context.actor(actor.id) === actor) {
+				actor.setAnimationState(animationName, { enabled: false });
+			}
+		}
+		this.running = [];
+	}
+
+	private captureInitialValues() {
+		this.initialValues = this.initialValues || new Map<Actor, { [path: string]: number }>();
+		for (const entry of this.compile().filter(e => e.values)) {
+			const actor = (entry.step as Tween).actor;
+			const values = this.initialValues.get(actor) || {};
+			for (const path of Object.keys(entry.values)) {
+				if (values[path] === undefined) {
+					values[path] = readPath(actor, path);
+				}
+			}
+			this.initialValues.set(actor, values);
+		}
+	}
+
+	/** Set the animated properties to their values at the given time, replaying the tweens from the start. */
+	private applyValuesAt(time: number) {
+		const state = new Map<Actor, { [path: string]: number }>();
+		this.initialValues.forEach((values, actor) => state.set(actor, { ...values }));
+
+		// Tweens run from whatever values the properties have when they start, so replay them in order of time.
+		const tweens = this.compile().filter(e => e.values && e.start <= time);
+		const events = [
+			...tweens.map(entry => ({ at: entry.start, entry, starting: true })),
+			...tweens.filter(entry => entry.end <= time).map(entry => ({ at: entry.end, entry, starting: false })),
+		].sort((a, b) => a.at - b.at || +a.starting - +b.starting);
+		const startValues = new Map<TimelineEntry, { [path: string]: number }>();
+		for (const { entry, starting } of events) {
+			const values = state.get((entry.step as Tween).actor);
+			if (starting) {
+				startValues.set(entry, pick(values, Object.keys(entry.values)));
+			} else {
+				Object.assign(values, entry.values);
+			}
+		}
+
+		// Tweens still in progress are part of the way to their final values.
+		for (const entry of tweens.filter(e => e.end > time)) {
+			const step = entry.step as Tween;
+			const from = startValues.get(entry);
+			const progress = BezierCurve.Interpolate(
+				(time - entry.start) / step.duration, step.curve[0], step.curve[1], step.curve[2], step.curve[3]);
+			const values = state.get(step.actor);
+			for (const path of Object.keys(entry.values)) {
+				values[path] = from[path] + (entry.values[path] - from[path]) * progress;
+			}
+			normalizeRotations(values);
+		}
+
+		state.forEach((values, actor) => {
+			if (actor.context.actor(actor.id) === actor) {
+				for (const path of Object.keys(values)) {
+					writePath(actor, path, values[path]);
+				}
+			}
+		});
+	}
+}
+
+/** Map the leaf values of an object by their paths. */
+function flatten(value: any, prefix: string, result: { [path: string]: number } = {}) {
+	for (const key of Object.keys(value)) {
+		const path = prefix ? `${prefix}.${key}` : key;
+		if (value[key] && typeof value[key] === 'object') {
+			flatten(typeof value[key].toJSON === 'function' ? value[key].toJSON() : value[key], path, result);
+		} else {
+			result[path] = value[key];
+		}
+	}
+	return result;
+}
+
+function pick(values: { [path: string]: number }, paths: string[]) {
+	return paths.reduce((picked, path) => ({ ...picked, [path]: values[path] }), {} as { [path: string]: number });
+}
+
+function readPath(target: any, path: string) {
+	return path.split('.').reduce((obj, key) => obj ? obj[key] : undefined, target);
+}
+
+function writePath(target: any, path: string, value: number) {
+	const keys = path.split('.');
+	const last = keys.pop();
+	const parent = keys.reduce((obj, key) => obj ? obj[key] : undefined, target);
+	if (parent) {
+		parent[last] = value;
+	}
+}
+
+/** Component-wise interpolation leaves rotations unnormalized, so fix them up. */
+function normalizeRotations(values: { [path: string]: number }) {
+	for (const path of Object.keys(values).filter(p => p.endsWith('rotation.w'))) {
+		const prefix = path.slice(0, -1);
+		const length = Math.sqrt(['x', 'y', 'z', 'w']
+			.reduce((sum, c) => sum + (values[prefix + c] || 0) * (values[prefix + c] || 0), 0));
+		if (length > 0) {
+			for (const c of ['x', 'y', 'z', 'w'].filter(k => values[prefix + k] !== undefined)) {
+				values[prefix + c] /= length;
+			}
+		}
+	}
+}
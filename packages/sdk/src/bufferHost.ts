@@ -0,0 +1,91 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { createHash } from 'crypto';
+import * as Restify from 'restify';
+import { resolve as urlResolve } from 'url';
+
+const BUFFER_KEYWORD = 'buffers';
+
+/**
+ * Serves buffers held in memory, such as glTF files generated with `gltf-gen`, for clients to load assets from. Each
+ * buffer is served under a URL derived from its content, until every reference to it is released. Buffers are only
+ * held in this process's memory, so they're gone once it exits, and their URLs aren't served by other instances of
+ * the app. Adapters serve buffers from their own web servers unless they're given a host in their options.
+ */
+export class BufferHost {
+	/** The buffers being served, by file name, with how many loads reference each. */
+	private hostedBuffers: { [filename: string]: { blob: Buffer, refCount: number } } = {};
+	private server: Restify.Server;
+
+	/**
+	 * The URL buffers are served under. Defaults to the URL of the server they're served from.
+	 */
+	public get baseUrl() {
+		return this._baseUrl || this.server && this.server.url && this.server.url.replace(/\[::\]/, '127.0.0.1');
+	}
+	public set baseUrl(value) { this._baseUrl = value; }
+
+	// tslint:disable-next-line:variable-name
+	constructor(private _baseUrl?: string) {
+	}
+
+	/**
+	 * Serve the hosted buffers from a web server.
+	 * @param server The server to serve them from.
+	 */
+	public serve(server: Restify.Server) {
+		this.server = server;
+		server.get(`/${BUFFER_KEYWORD}/*`, (req, res, next) => {
+			const blob = this.hostedBuffer(req.url);
+			if (blob) {
+				res.sendRaw(200, blob);
+			} else {
+				res.send(404);
+			}
+			next();
+		});
+	}
+
+	/**
+	 * Serve a buffer under a URL derived from its content. Hosting the same content again adds a reference to the
+	 * existing URL.
+	 * @param blob A binary blob.
+	 * @param extension The file extension to serve it with, e.g. `.glb`.
+	 * @returns The URL to fetch the buffer from.
+	 */
+	public hostBuffer(blob: Buffer, extension: string): string {
+		const baseUrl = this.baseUrl;
+		if (!baseUrl) {
+			throw new Error("Cannot host buffers before the buffer host's server is listening");
+		}
+		const filename = createHash('sha256').update(blob).digest('hex') + extension;
+		const hosted = this.hostedBuffers[filename] = this.hostedBuffers[filename] || { blob, refCount: 0 };
+		hosted.refCount++;
+		return urlResolve(baseUrl, `${BUFFER_KEYWORD}/${filename}`);
+	}
+
+	/**
+	 * Release a reference to a buffer hosted with [[hostBuffer]], and stop serving it once none are left.
+	 * @param url The URL the buffer is served from.
+	 */
+	public releaseBuffer(url: string) {
+		const filename = url.split('/').pop();
+		const hosted = this.hostedBuffers[filename];
+		if (hosted && --hosted.refCount <= 0) {
+			delete this.hostedBuffers[filename];
+		}
+	}
+
+	/**
+	 * Get the contents of a buffer hosted with [[hostBuffer]].
+	 * @param url The URL the buffer is served from.
+	 * @returns The buffer, or undefined if it isn't being served.
+	 */
+	public hostedBuffer(url: string): Buffer {
+		const hosted = this.hostedBuffers[url.split('/').pop()];
+		return hosted && hosted.blob;
+	}
+}
@@ -41,6 +41,10 @@ export class EventedConnection extends EventEmitter implements Connection {
 
 	/** @inheritdoc */
 	public close(): void {
+		// Messages nobody has listened for by now never will be.
+		clearTimeout(this.timeout);
+		this.timeout = undefined;
+		this.queuedMessages = [];
 		this.emit('close');
 	}
 
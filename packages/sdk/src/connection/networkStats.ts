@@ -46,7 +46,8 @@ export class NetworkStatsTracker extends EventEmitter {
 
 	constructor() {
 		super();
-		setInterval(() => this.cycleStatFrames(), 1000);
+		// Bookkeeping alone shouldn't keep the process running.
+		setInterval(() => this.cycleStatFrames(), 1000).unref();
 	}
 
 	/** @private */
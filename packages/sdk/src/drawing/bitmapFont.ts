@@ -0,0 +1,74 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+// tslint:disable:no-bitwise
+
+/**
+ * A font of fixed-size pixel glyphs, for [[Canvas.drawText]]. Extend [[defaultFont]] with glyphs for the characters
+ * your text needs, or supply a font of your own.
+ */
+export interface BitmapFont {
+	/** The width of every glyph, in font pixels. Characters are a font pixel apart. */
+	glyphWidth: number;
+	/** The height of every glyph, in font pixels. Lines are a font pixel apart. */
+	glyphHeight: number;
+	/**
+	 * The glyphs, by character. Each is an array of `glyphHeight` rows from top to bottom, each a string of
+	 * `glyphWidth` pixels from left to right. Pixels are set unless they're spaces, e.g. `['#   #', ' # # ', ...]`.
+	 */
+	glyphs: { [char: string]: string[] };
+}
+
+/**
+ * The glyphs of the built-in font's printable ASCII characters, from space to tilde. Each glyph is five columns from
+ * left to right, each a byte whose bits from least significant are the column's pixels from top to bottom.
+ */
+const glyphs = Buffer.from(
+	'0000000000' + '00005f0000' + '0007000700' + '147f147f14' + '242a7f2a12' + '2313086462' + '3649552250' +
+	'0005030000' + '001c224100' + '0041221c00' + '082a1c2a08' + '08083e0808' + '0050300000' + '0808080808' +
+	'0060600000' + '2010080402' + '3e5149453e' + '00427f4000' + '4261514946' + '2141454b31' + '1814127f10' +
+	'2745454539' + '3c4a494930' + '0171090503' + '3649494936' + '064949291e' + '0036360000' + '0056360000' +
+	'0814224100' + '1414141414' + '0041221408' + '0201510906' + '324979413e' + '7e1111117e' + '7f49494936' +
+	'3e41414122' + '7f4141221c' + '7f49494941' + '7f09090101' + '3e41415132' + '7f0808087f' + '00417f4100' +
+	'2040413f01' + '7f08142241' + '7f40404040' + '7f0204027f' + '7f0408107f' + '3e4141413e' + '7f09090906' +
+	'3e4151215e' + '7f09192946' + '4649494931' + '01017f0101' + '3f4040403f' + '1f2040201f' + '7f2018207f' +
+	'6314081463' + '0304780403' + '6151494543' + '007f414100' + '0204081020' + '0041417f00' + '0402010204' +
+	'4040404040' + '0001020400' + '2054545478' + '7f48444438' + '3844444420' + '384444487f' + '3854545418' +
+	'087e090102' + '0c5252523e' + '7f08040478' + '00447d4000' + '2040443d00' + '007f102844' + '00417f4000' +
+	'7c04180478' + '7c08040478' + '3844444438' + '7c14141408' + '081414187c' + '7c08040408' + '4854545420' +
+	'043f444020' + '3c4040207c' + '1c2040201c' + '3c4030403c' + '4428102844' + '0c5050503c' + '4464544c44' +
+	'0008364100' + '00007f0000' + '0041360800' + '0804040804',
+	'hex');
+
+/**
+ * The built-in 5x7 font, with glyphs for printable ASCII characters.
+ */
+export const defaultFont: BitmapFont = {
+	glyphWidth: 5,
+	glyphHeight: 7,
+	glyphs: {}
+};
+for (let code = 32; code <= 126; code++) {
+	const columns = glyphs.slice((code - 32) * defaultFont.glyphWidth, (code - 31) * defaultFont.glyphWidth);
+	const rows: string[] = [];
+	for (let row = 0; row < defaultFont.glyphHeight; row++) {
+		rows.push(Array.from(columns, column => column >> row & 1 ? '#' : ' ').join(''));
+	}
+	defaultFont.glyphs[String.fromCharCode(code)] = rows;
+}
+
+/**
+ * @hidden
+ * Get the glyph to draw a character with. Characters the font has no glyph for are drawn without their accents if it
+ * has glyphs for the unaccented characters, as question marks if not, or left blank if it has no question mark either.
+ * @param font The font to draw with.
+ * @param char The character, which may be a surrogate pair.
+ * @returns The glyph's rows, or undefined if it's blank.
+ */
+export function glyphOf(font: BitmapFont, char: string): string[] {
+	return font.glyphs[char] ||
+		font.glyphs[char.normalize('NFD').replace(/[\u0300-\u036f]/g, '')] ||
+		font.glyphs['?'];
+}
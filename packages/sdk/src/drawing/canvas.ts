@@ -0,0 +1,413 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+	AssetContainer, Color4Like, Material, MaterialLike, TextJustify, Texture, TextureLike, TexturePixels
+} from '..';
+import { BitmapFont, defaultFont, glyphOf } from './bitmapFont';
+
+/**
+ * How [[Canvas.drawText]] lays out and styles text.
+ */
+export interface CanvasTextStyle {
+	/** The color of the text. Defaults to opaque white. */
+	color: Color4Like;
+	/** The height of a line of text, in pixels. Defaults to 16. */
+	height: number;
+	/** The distance between the tops of consecutive lines, as a multiple of the line height. Defaults to 1. */
+	lineSpacing: number;
+	/** How lines are aligned to the x coordinate the text is drawn at. Defaults to left. */
+	justify: TextJustify;
+	/** The width to wrap lines at, in pixels. Lines are only broken at line breaks if not given. */
+	maxWidth: number;
+	/** Whether to thicken the strokes of the text. */
+	bold: boolean;
+	/**
+	 * The pixel font to draw the text in. Defaults to [[defaultFont]], which only has glyphs for printable ASCII
+	 * characters.
+	 */
+	font: BitmapFont;
+}
+
+/** How much of each pixel within some bounds of a canvas a shape covers, from 0 to 1. */
+type Mask = {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+	coverage: Float32Array;
+};
+
+/**
+ * A 2D image drawn by the app, for signs, menus and HUDs that [[Text]] can't express. Draws anti-aliased shapes, images
+ * and text in pixel fonts, entirely in JavaScript, then becomes the texture of a material with [[createMaterial]] or
+ * [[createTexture]]. Redraw it and call [[updateTexture]] to change what clients see. Coordinates are in pixels from
+ * the top left corner, and colors are blended over what's already drawn.
+ */
+export class Canvas {
+	private rgba: Uint8Array;
+
+	/** The pixels of the canvas, not copied, in the form textures are created from. */
+	public get pixels(): TexturePixels {
+		return { width: this.width, height: this.height, rgba: this.rgba };
+	}
+
+	/**
+	 * @param width The width of the canvas, in pixels.
+	 * @param height The height of the canvas, in pixels.
+	 * @param background The color to fill the canvas with. Defaults to transparent.
+	 */
+	public constructor(public readonly width: number, public readonly height: number, background?: Color4Like) {
+		if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+			throw new Error(`Invalid canvas size ${width}x${height}`);
+		}
+		this.rgba = new Uint8Array(width * height * 4);
+		if (background) {
+			this.clear(background);
+		}
+	}
+
+	/**
+	 * Replace every pixel with a color.
+	 * @param color The color to fill the canvas with. Defaults to transparent.
+	 */
+	public clear(color: Color4Like = { r: 0, g: 0, b: 0, a: 0 }) {
+		const pixel = [color.r, color.g, color.b, color.a].map(toByte);
+		for (let i = 0; i < this.rgba.length; i += 4) {
+			this.rgba.set(pixel, i);
+		}
+		return this;
+	}
+
+	/**
+	 * Fill a rectangle.
+	 * @param x The left edge of the rectangle.
+	 * @param y The top edge of the rectangle.
+	 * @param width The width of the rectangle.
+	 * @param height The height of the rectangle.
+	 * @param color The color to fill it with.
+	 */
+	public fillRect(x: number, y: number, width: number, height: number, color: Color4Like) {
+		const mask = this.createMask(x, y, x + width, y + height);
+		this.coverRect(mask, x, y, width, height);
+		return this.fillMask(mask, color);
+	}
+
+	/**
+	 * Draw the outline of a rectangle, inside its edges.
+	 * @param x The left edge of the rectangle.
+	 * @param y The top edge of the rectangle.
+	 * @param width The width of the rectangle.
+	 * @param height The height of the rectangle.
+	 * @param color The color of the outline.
+	 * @param lineWidth The thickness of the outline.
+	 */
+	public strokeRect(x: number, y: number, width: number, height: number, color: Color4Like, lineWidth = 1) {
+		const mask = this.createMask(x, y, x + width, y + height);
+		const inner = Math.max(0, height - 2 * lineWidth);
+		this.coverRect(mask, x, y, width, Math.min(lineWidth, height));
+		this.coverRect(mask, x, y + height - Math.min(lineWidth, height), width, Math.min(lineWidth, height));
+		this.coverRect(mask, x, y + lineWidth, Math.min(lineWidth, width), inner);
+		this.coverRect(mask, x + width - Math.min(lineWidth, width), y + lineWidth, Math.min(lineWidth, width), inner);
+		return this.fillMask(mask, color);
+	}
+
+	/**
+	 * Fill a circle.
+	 * @param x The x coordinate of the circle's center.
+	 * @param y The y coordinate of the circle's center.
+	 * @param radius The radius of the circle.
+	 * @param color The color to fill it with.
+	 */
+	public fillCircle(x: number, y: number, radius: number, color: Color4Like) {
+		return this.fillShape(x - radius, y - radius, x + radius, y + radius, color,
+			(px, py) => radius - Math.hypot(px - x, py - y));
+	}
+
+	/**
+	 * Draw the outline of a circle, centered on its edge.
+	 * @param x The x coordinate of the circle's center.
+	 * @param y The y coordinate of the circle's center.
+	 * @param radius The radius of the circle.
+	 * @param color The color of the outline.
+	 * @param lineWidth The thickness of the outline.
+	 */
+	public strokeCircle(x: number, y: number, radius: number, color: Color4Like, lineWidth = 1) {
+		const extent = radius + lineWidth / 2;
+		return this.fillShape(x - extent, y - extent, x + extent, y + extent, color,
+			(px, py) => lineWidth / 2 - Math.abs(Math.hypot(px - x, py - y) - radius));
+	}
+
+	/**
+	 * Draw a straight line with rounded ends.
+	 * @param x0 The x coordinate of the start of the line.
+	 * @param y0 The y coordinate of the start of the line.
+	 * @param x1 The x coordinate of the end of the line.
+	 * @param y1 The y coordinate of the end of the line.
+	 * @param color The color of the line.
+	 * @param lineWidth The thickness of the line.
+	 */
+	public drawLine(x0: number, y0: number, x1: number, y1: number, color: Color4Like, lineWidth = 1) {
+		const extent = lineWidth / 2;
+		const dx = x1 - x0;
+		const dy = y1 - y0;
+		const lengthSquared = dx * dx + dy * dy;
+		return this.fillShape(
+			Math.min(x0, x1) - extent, Math.min(y0, y1) - extent, Math.max(x0, x1) + extent, Math.max(y0, y1) + extent,
+			color,
+			(px, py) => {
+				// Measure the distance to the closest point on the line.
+				const t = lengthSquared ? Math.min(1, Math.max(0, ((px - x0) * dx + (py - y0) * dy) / lengthSquared)) : 0;
+				return extent - Math.hypot(px - x0 - t * dx, py - y0 - t * dy);
+			});
+	}
+
+	/**
+	 * Draw an image, scaled to the given size with nearest-neighbor sampling.
+	 * @param image The image to draw, e.g. the pixels of another canvas.
+	 * @param x The left edge of the image.
+	 * @param y The top edge of the image.
+	 * @param width The width to draw the image at. Defaults to its own width.
+	 * @param height The height to draw the image at. Defaults to its own height.
+	 */
+	public drawImage(image: TexturePixels, x: number, y: number, width = image.width, height = image.height) {
+		const left = Math.round(x);
+		const top = Math.round(y);
+		const right = Math.round(x + width);
+		const bottom = Math.round(y + height);
+		for (let py = Math.max(0, top); py < Math.min(this.height, bottom); py++) {
+			const sy = Math.min(image.height - 1, Math.floor((py - top + 0.5) * image.height / (bottom - top)));
+			for (let px = Math.max(0, left); px < Math.min(this.width, right); px++) {
+				const sx = Math.min(image.width - 1, Math.floor((px - left + 0.5) * image.width / (right - left)));
+				const i = (sy * image.width + sx) * 4;
+				this.blend(px, py, image.rgba[i], image.rgba[i + 1], image.rgba[i + 2], image.rgba[i + 3] / 255);
+			}
+		}
+		return this;
+	}
+
+	/**
+	 * Draw text in a pixel font. Lines are broken at line breaks, and at spaces to fit `maxWidth` if given.
+	 * @param text The text to draw. Characters the font has no glyph for are drawn without their accents where it
+	 * has the unaccented character, e.g. `é` as `e`, and as question marks otherwise. Give a font with more glyphs in
+	 * `style` to draw other characters.
+	 * @param x The left edge, center or right edge of the lines, depending on how they're justified.
+	 * @param y The top of the first line.
+	 * @param style How to lay out and style the text.
+	 * @returns The size of the drawn text.
+	 */
+	public drawText(text: string, x: number, y: number, style: Partial<CanvasTextStyle> = {}) {
+		const resolved = resolveStyle(style);
+		const font = resolved.font;
+		const scale = resolved.height / (font.glyphHeight + 1);
+		const lines = this.layoutText(text, resolved);
+		const size = this.measureLines(lines, resolved);
+		const lefts = lines.map(line => {
+			const lineWidth = this.lineWidth(line, resolved);
+			return resolved.justify === TextJustify.Center ? x - lineWidth / 2 :
+				resolved.justify === TextJustify.Right ? x - lineWidth :
+				x;
+		});
+		const mask = this.createMask(Math.min(...lefts), y, Math.min(...lefts) + size.width, y + size.height);
+		lines.forEach((line, i) => {
+			const top = y + i * resolved.height * resolved.lineSpacing;
+			line.forEach((char, c) => {
+				const glyph = glyphOf(font, char);
+				const left = lefts[i] + c * (font.glyphWidth + 1) * scale;
+				if (glyph) {
+					this.coverGlyph(mask, glyph, left, top, scale, resolved.bold);
+				}
+			});
+		});
+		this.fillMask(mask, resolved.color);
+		return size;
+	}
+
+	/**
+	 * Measure the text [[drawText]] would draw, e.g. to center it vertically or size a background behind it.
+	 * @param text The text to measure.
+	 * @param style How the text would be laid out.
+	 * @returns The width of the widest line, and the height from the top of the first line to the bottom of the last.
+	 */
+	public measureText(text: string, style: Partial<CanvasTextStyle> = {}) {
+		const resolved = resolveStyle(style);
+		return this.measureLines(this.layoutText(text, resolved), resolved);
+	}
+
+	/**
+	 * Generate a new texture asset from the canvas. See [[AssetContainer.createTextureFromPixels]].
+	 * @param container The container to create the texture in.
+	 * @param name The new texture's name.
+	 * @param definition The initial texture properties, other than its `uri` and `resolution`.
+	 */
+	public createTexture(container: AssetContainer, name: string, definition: Partial<TextureLike> = {}): Texture {
+		return container.createTextureFromPixels(name, this.pixels, definition);
+	}
+
+	/**
+	 * Generate a new material asset whose main texture is the canvas.
+	 * @param container The container to create the material and its texture in.
+	 * @param name The name of the new material, and of its texture.
+	 * @param definition The initial material properties, other than its `mainTextureId`.
+	 */
+	public createMaterial(container: AssetContainer, name: string, definition: Partial<MaterialLike> = {}): Material {
+		const texture = this.createTexture(container, name);
+		return container.createMaterial(name, { ...definition, mainTextureId: texture.id });
+	}
+
+	/**
+	 * Replace a texture's image with what's currently drawn on the canvas. See [[Texture.setPixels]].
+	 * @param texture The texture to update, e.g. one created with [[createTexture]], or a material's main texture.
+	 */
+	public updateTexture(texture: Texture) {
+		texture.setPixels(this.pixels);
+	}
+
+	/**
+	 * Break text into lines at line breaks, and at spaces where lines would be too wide. Lines are split into
+	 * characters, keeping surrogate pairs together.
+	 */
+	private layoutText(text: string, style: CanvasTextStyle): string[][] {
+		const lines: string[][] = [];
+		const cellWidth = style.font.glyphWidth + 1;
+		const maxChars = style.maxWidth > 0 ?
+			Math.max(1, Math.floor((style.maxWidth / (style.height / (style.font.glyphHeight + 1)) + 1) / cellWidth)) :
+			Infinity;
+		for (const paragraph of text.split(/\r?\n/)) {
+			let line: string[] = [];
+			for (const word of paragraph.split(' ').map(chars => Array.from(chars))) {
+				const candidate = line.length ? [...line, ' ', ...word] : word;
+				if (candidate.length <= maxChars) {
+					line = candidate;
+					continue;
+				}
+				if (line.length) {
+					lines.push(line);
+				}
+				// Words too long for a line of their own are broken wherever they overflow.
+				line = word;
+				while (line.length > maxChars) {
+					lines.push(line.slice(0, maxChars));
+					line = line.slice(maxChars);
+				}
+			}
+			lines.push(line);
+		}
+		return lines;
+	}
+
+	private lineWidth(line: string[], style: CanvasTextStyle) {
+		// The gap after the last character isn't part of the line.
+		const scale = style.height / (style.font.glyphHeight + 1);
+		return line.length ? (line.length * (style.font.glyphWidth + 1) - 1 + (style.bold ? 1 : 0)) * scale : 0;
+	}
+
+	private measureLines(lines: string[][], style: CanvasTextStyle) {
+		return {
+			width: Math.max(0, ...lines.map(line => this.lineWidth(line, style))),
+			height: (lines.length - 1) * style.height * style.lineSpacing + style.height
+		};
+	}
+
+	private coverGlyph(mask: Mask, glyph: string[], x: number, y: number, scale: number, bold: boolean) {
+		glyph.forEach((row, r) => {
+			for (let column = 0; column < row.length; column++) {
+				if (row[column] !== ' ') {
+					// Bold strokes are a font pixel wider, overlapping the next column.
+					this.coverRect(mask, x + column * scale, y + r * scale, scale * (bold ? 2 : 1), scale);
+				}
+			}
+		});
+	}
+
+	/** Create an empty coverage mask for the pixels of the canvas within the given bounds. */
+	private createMask(minX: number, minY: number, maxX: number, maxY: number): Mask {
+		const left = Math.min(this.width, Math.max(0, Math.floor(minX)));
+		const top = Math.min(this.height, Math.max(0, Math.floor(minY)));
+		const width = Math.max(0, Math.min(this.width, Math.ceil(maxX)) - left);
+		const height = Math.max(0, Math.min(this.height, Math.ceil(maxY)) - top);
+		return { left, top, width, height, coverage: new Float32Array(width * height || 0) };
+	}
+
+	/** Add how much of each pixel a rectangle covers to a coverage mask. Parts outside the mask are left out. */
+	private coverRect(mask: Mask, x: number, y: number, width: number, height: number) {
+		const minY = Math.max(mask.top, Math.floor(y));
+		const maxY = Math.min(mask.top + mask.height, Math.ceil(y + height));
+		const minX = Math.max(mask.left, Math.floor(x));
+		const maxX = Math.min(mask.left + mask.width, Math.ceil(x + width));
+		for (let py = minY; py < maxY; py++) {
+			const coverY = Math.min(py + 1, y + height) - Math.max(py, y);
+			for (let px = minX; px < maxX; px++) {
+				const coverX = Math.min(px + 1, x + width) - Math.max(px, x);
+				const i = (py - mask.top) * mask.width + px - mask.left;
+				mask.coverage[i] = Math.min(1, mask.coverage[i] + coverX * coverY);
+			}
+		}
+	}
+
+	/**
+	 * Fill the pixels within the given bounds by their distance from the edge of a shape, which is positive inside it.
+	 * Pixels within half a pixel of the edge are partially covered.
+	 */
+	private fillShape(
+		minX: number, minY: number, maxX: number, maxY: number, color: Color4Like,
+		distanceInside: (x: number, y: number) => number
+	) {
+		const mask = this.createMask(minX, minY, maxX, maxY);
+		for (let y = 0; y < mask.height; y++) {
+			for (let x = 0; x < mask.width; x++) {
+				const distance = distanceInside(mask.left + x + 0.5, mask.top + y + 0.5);
+				mask.coverage[y * mask.width + x] = Math.min(1, Math.max(0, distance + 0.5));
+			}
+		}
+		return this.fillMask(mask, color);
+	}
+
+	private fillMask(mask: Mask, color: Color4Like) {
+		const [r, g, b] = [color.r, color.g, color.b].map(toByte);
+		const alpha = color.a === undefined ? 1 : color.a;
+		for (let y = 0; y < mask.height; y++) {
+			for (let x = 0; x < mask.width; x++) {
+				const coverage = mask.coverage[y * mask.width + x];
+				if (coverage > 0) {
+					this.blend(mask.left + x, mask.top + y, r, g, b, alpha * coverage);
+				}
+			}
+		}
+		return this;
+	}
+
+	/** Blend a color over a pixel, with the given opacity. */
+	private blend(x: number, y: number, r: number, g: number, b: number, alpha: number) {
+		const i = (y * this.width + x) * 4;
+		const destAlpha = this.rgba[i + 3] / 255;
+		const outAlpha = alpha + destAlpha * (1 - alpha);
+		if (outAlpha <= 0) {
+			return;
+		}
+		const destWeight = destAlpha * (1 - alpha);
+		this.rgba[i] = Math.round((r * alpha + this.rgba[i] * destWeight) / outAlpha);
+		this.rgba[i + 1] = Math.round((g * alpha + this.rgba[i + 1] * destWeight) / outAlpha);
+		this.rgba[i + 2] = Math.round((b * alpha + this.rgba[i + 2] * destWeight) / outAlpha);
+		this.rgba[i + 3] = Math.round(outAlpha * 255);
+	}
+}
+
+function resolveStyle(style: Partial<CanvasTextStyle>): CanvasTextStyle {
+	return {
+		color: { r: 1, g: 1, b: 1, a: 1 },
+		height: 16,
+		lineSpacing: 1,
+		justify: TextJustify.Left,
+		maxWidth: 0,
+		bold: false,
+		font: defaultFont,
+		...style
+	};
+}
+
+function toByte(value: number) {
+	return Math.round(Math.min(1, Math.max(0, value === undefined ? 1 : value)) * 255);
+}
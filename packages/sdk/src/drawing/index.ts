@@ -0,0 +1,7 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+export { BitmapFont, defaultFont } from './bitmapFont';
+export * from './canvas';
@@ -5,6 +5,8 @@
 
 export * from './adapters';
 export * from './animation';
+export * from './bufferHost';
+export * from './drawing';
 export * from './math';
 export * from './connection';
 export * from './media';
@@ -17,3 +19,4 @@ export * from './types/performanceStats';
 export * from './types/primitiveTypes';
 export * from './types/lookatMode';
 export * from './types/parameterSet';
+export { default as GLTF } from './gen/gltf';
@@ -15,6 +15,12 @@ export class BezierCurve {
 	 * @returns the interpolated value
 	 */
 	public static Interpolate(t: number, x1: number, y1: number, x2: number, y2: number): number {
+		// The curve always starts at 0 and ends at 1, and the slope used to refine t can be infinite there.
+		if (t <= 0) {
+			return 0;
+		} else if (t >= 1) {
+			return 1;
+		}
 
 		// Extract X (which is equal to time here)
 		const f0 = 1 - 3 * x2 + 3 * x1;
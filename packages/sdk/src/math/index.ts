@@ -15,6 +15,7 @@ export * from './matrix';
 export * from './quaternion';
 export * from './bezierCurve';
 export * from './curve3';
+export * from './path3';
 export * from './orientation';
 export * from './frustum';
 export * from './arc2';
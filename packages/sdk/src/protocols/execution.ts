@@ -6,6 +6,7 @@
 import { Protocol, ServerPreprocessing } from '.';
 import { ActionEvent, CollisionEvent, Context, Message, TriggerEvent, WebSocket } from '..';
 import {
+	ActorCorrection,
 	ActorUpdate,
 	CollisionEventRaised,
 	DestroyActors,
@@ -56,6 +57,11 @@ export class Execution extends Protocol {
 		this.emit('protocol.update-actors', [payload.actor]);
 	}
 
+	/** @private */
+	public 'recv-actor-correction' = (payload: ActorCorrection) => {
+		this.emit('protocol.update-actors', [{ id: payload.actorId, transform: { app: payload.appTransform } }]);
+	}
+
 	/** @private */
 	public 'recv-destroy-actors' = (payload: DestroyActors) => {
 		this.emit('protocol.destroy-actors', payload.actorIds);
@@ -15,6 +15,8 @@ import { Protocol } from './protocol';
  */
 export class Handshake extends Protocol {
 	public syncRequest: Payloads.SyncRequest;
+	/** The optional protocol messages the client advertised support for. */
+	public capabilities: Payloads.ClientCapability[] = [];
 
 	constructor(conn: Connection, private sessionId: string, private operatingModel: OperatingModel) {
 		super(conn);
@@ -24,6 +26,7 @@ export class Handshake extends Protocol {
 
 	/** @private */
 	public 'recv-handshake' = (payload: Payloads.Handshake) => {
+		this.capabilities = payload.capabilities || [];
 		this.sendPayload({
 			type: 'handshake-reply',
 			sessionId: this.sessionId,
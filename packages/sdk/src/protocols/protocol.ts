@@ -88,6 +88,22 @@ export class Protocol extends EventEmitter {
 			}
 		}
 
+		// Save the reply callback
+		this.expectReply(message, promise, timeoutSeconds);
+
+		log.verbose('network', `${this.name} send id:${message.id.substr(0, 8)}, type:${message.payload.type}`);
+		log.verbose('network-content', JSON.stringify(message, (key, value) => filterEmpty(value)));
+
+		this.conn.send(message);
+	}
+
+	/**
+	 * Give a message an id, and save the callback for its reply. Messages sent inside other messages, such as those in
+	 * an update batch, have their replies awaited this way.
+	 */
+	public expectReply(message: Message, promise?: ExportedPromise, timeoutSeconds?: number) {
+		message.id = message.id || UUID();
+
 		const setReplyTimeout = () => {
 			if (timeoutSeconds > 0) {
 				return setTimeout(() => {
@@ -100,18 +116,13 @@ export class Protocol extends EventEmitter {
 			}
 		};
 
-		// Save the reply callback
 		if (promise) {
 			this.promises[message.id] = {
 				promise,
 				timeout: setReplyTimeout()
 			};
 		}
-
-		log.verbose('network', `${this.name} send id:${message.id.substr(0, 8)}, type:${message.payload.type}`);
-		log.verbose('network-content', JSON.stringify(message, (key, value) => filterEmpty(value)));
-
-		this.conn.send(message);
+		return message;
 	}
 
 	public recvMessage(message: Message) {
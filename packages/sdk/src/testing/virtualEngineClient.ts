@@ -0,0 +1,526 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { EventEmitter } from 'events';
+import UUID from 'uuid/v4';
+import {
+	ActionState,
+	ActorLike,
+	AssetLike,
+	BehaviorType,
+	Connection,
+	Context,
+	ContextSettings,
+	MediaCommand,
+	Message,
+	Pipe,
+	PrimitiveDefinition,
+	PrimitiveShape,
+	UserLike,
+} from '..';
+import { log } from '../log';
+import { OperatingModel } from '../types/network/operatingModel';
+import * as Payloads from '../types/network/payloads';
+import { ClientCapability } from '../types/network/payloads';
+import { VirtualEngineProtocol } from './virtualEngineProtocol';
+import { VirtualScene } from './virtualScene';
+
+/**
+ * Options for a [[VirtualEngineClient]].
+ */
+export type VirtualEngineClientOptions = {
+	/**
+	 * Produces the assets contained in the glTF file at the given URI, standing in for a download. Asset ids are
+	 * generated for any definitions that lack one. When not given, every glTF is treated as containing a single
+	 * one-node prefab. Throwing (or rejecting) reports a load failure to the app.
+	 */
+	resolveGltf?: (uri: string) => Array<Partial<AssetLike>> | Promise<Array<Partial<AssetLike>>>;
+
+	/**
+	 * Fills in the engine-reported properties of a newly created asset (texture resolution, sound duration, etc.).
+	 * When not given, primitive meshes have their counts and bounds estimated, and all other assets are echoed back.
+	 */
+	resolveAsset?: (definition: AssetLike) => AssetLike;
+
+	/**
+	 * The optional protocol messages to advertise support for during the handshake. Defaults to all those the virtual
+	 * engine client supports.
+	 */
+	capabilities?: ClientCapability[];
+};
+
+/**
+ * A headless stand-in for an engine client. Connects to an app (directly, or through a [[MultipeerAdapter]]),
+ * answers the app's requests the way a real engine would, and keeps a [[VirtualScene]] of everything the app has
+ * created. Use it to drive and inspect an app from plain Node tests.
+ */
+export class VirtualEngineClient extends EventEmitter {
+	/**
+	 * Creates a new app context and connects a virtual engine client to it through an in-memory pipe.
+	 * The context's update loop is started once the client has connected.
+	 * @param sessionId The session id to give the new context.
+	 * @param options Options for the virtual engine client.
+	 * @param settings Other settings for the new context, such as its buffer host.
+	 */
+	public static async CreateContext(
+		sessionId = UUID(), options?: VirtualEngineClientOptions, settings?: ContextSettings
+	) {
+		const pipe = new Pipe();
+		const context = new Context({ ...settings, sessionId, connection: pipe.remote });
+		context.internal.startListening().catch(() => pipe.remote.close());
+		const client = new VirtualEngineClient(pipe.local, options);
+		await client.connect();
+		context.internal.start();
+		return { context, client };
+	}
+
+	// tslint:disable:variable-name
+	private _protocol: VirtualEngineProtocol;
+	private _scene = new VirtualScene();
+	private _sessionId: string;
+	private _operatingModel: OperatingModel;
+	private _authoritative = false;
+	private _connected: Promise<void>;
+	private _resolveConnected: () => void;
+	private _interpolations: { [animationName: string]: NodeJS.Timer } = {};
+	// tslint:enable:variable-name
+
+	/** The connection to the app. */
+	public get conn() { return this._conn; }
+	/** Everything the app has created, as seen by this client. */
+	public get scene() { return this._scene; }
+	/** The session id reported by the app during the handshake. */
+	public get sessionId() { return this._sessionId; }
+	/** The operating model reported by the app during the handshake. */
+	public get operatingModel() { return this._operatingModel; }
+	/** Whether this client reports state back to the app, as decided by the app's operating model. */
+	public get authoritative() { return this._authoritative; }
+
+	/**
+	 * Creates a new virtual engine client.
+	 * @param _conn The connection to the app. Typically one side of a [[Pipe]].
+	 * @param options Options for the client.
+	 */
+	// tslint:disable-next-line:variable-name
+	constructor(private _conn: Connection, private options: VirtualEngineClientOptions = {}) {
+		super();
+		this.recvMessage = this.recvMessage.bind(this);
+		this.disconnect = this.disconnect.bind(this);
+		this._conn.on('close', this.disconnect);
+	}
+
+	/**
+	 * Handshake with the app and wait for the initial state synchronization to complete.
+	 */
+	public connect(): Promise<void> {
+		if (!this._connected) {
+			this._connected = new Promise<void>(resolve => this._resolveConnected = resolve);
+			this._protocol = new VirtualEngineProtocol(this._conn);
+			this._protocol.on('recv', this.recvMessage);
+			this._protocol.startListening();
+			this._protocol.sendPayload({
+				type: 'handshake',
+				capabilities: this.options.capabilities || ['create-empty-batch', 'update-batch']
+			} as Payloads.Handshake);
+		}
+		return this._connected;
+	}
+
+	/**
+	 * Close the connection to the app, and stop any pending interpolations.
+	 */
+	public disconnect() {
+		for (const timer of Object.values(this._interpolations)) {
+			clearTimeout(timer);
+		}
+		this._interpolations = {};
+		if (this._protocol) {
+			this._protocol.stopListening();
+			this._protocol = undefined;
+			this._conn.off('close', this.disconnect);
+			this._conn.close();
+			this.emit('close');
+		}
+	}
+
+	/**
+	 * Join a new user to the app through this client.
+	 * @param user Initial properties of the user. An id and name are generated if not given.
+	 * @returns The id of the joined user.
+	 */
+	public joinUser(user: Partial<UserLike> = {}): string {
+		const id = user.id || UUID();
+		const joined: Partial<UserLike> = {
+			name: `User ${id.substr(0, 8)}`,
+			groups: 0,
+			properties: {},
+			...user,
+			id
+		};
+		this._scene.updateUser(joined);
+		this.sendPayload({ type: 'user-joined', user: joined } as Payloads.UserJoined);
+		return id;
+	}
+
+	/**
+	 * Inform the app that a user has left.
+	 * @param userId The id of the leaving user.
+	 */
+	public leaveUser(userId: string) {
+		this._scene.removeUser(userId);
+		this.sendPayload({ type: 'user-left', userId } as Payloads.UserLeft);
+	}
+
+	/**
+	 * Perform a behavior action on an actor, as if the given user had done so.
+	 * @param options.behaviorType Defaults to the behavior the app has set on the actor.
+	 */
+	public performAction(options: {
+		userId: string,
+		targetId: string,
+		actionName: string,
+		actionState: ActionState,
+		behaviorType?: BehaviorType
+	}) {
+		this.sendPayload({
+			type: 'perform-action',
+			behaviorType: this._scene.behavior(options.targetId),
+			...options
+		} as Payloads.PerformAction);
+	}
+
+	/**
+	 * Report an engine-side change to an actor (e.g. from physics) to the app.
+	 * @param actor The changed actor properties. Must include the actor's id.
+	 */
+	public updateActor(actor: Partial<ActorLike>) {
+		this._scene.updateActor(actor);
+		this.sendPayload({ type: 'actor-update', actor } as Payloads.ActorUpdate);
+	}
+
+	/**
+	 * Send a remote procedure call to the app.
+	 * @param procName The name of the procedure.
+	 * @param args The procedure's arguments.
+	 */
+	public sendRPC(procName: string, ...args: any[]) {
+		this.sendPayload({ type: 'engine2app-rpc', procName, args } as Payloads.EngineToAppRPC);
+	}
+
+	private sendPayload(payload: Partial<Payloads.Payload>, replyToId?: string) {
+		if (!this._protocol) {
+			log.error('network', `[ERROR] Virtual engine is not connected, dropping ${payload.type}`);
+			return;
+		}
+		this._protocol.sendMessage({ payload, replyToId });
+	}
+
+	private recvMessage(message: Message) {
+		this.emit('message', message);
+		this.applyMessage(message);
+	}
+
+	private applyMessage(message: Message) {
+		const payload = message.payload;
+		switch (payload.type) {
+			case 'handshake-reply': {
+				const reply = payload as Payloads.HandshakeReply;
+				this._sessionId = reply.sessionId;
+				this._operatingModel = reply.operatingModel;
+				// Peers wait to be told they're authoritative.
+				this._authoritative = reply.operatingModel === OperatingModel.ServerAuthoritative;
+				this.sendPayload({ type: 'handshake-complete' } as Payloads.HandshakeComplete);
+				this.sendPayload({ type: 'sync-request' } as Payloads.SyncRequest);
+				break;
+			}
+			case 'sync-complete':
+				this._resolveConnected();
+				break;
+			case 'set-authoritative':
+				this._authoritative = (payload as Payloads.SetAuthoritative).authoritative;
+				break;
+			case 'create-empty':
+			case 'create-from-library':
+				this.spawnActors(message, [(payload as Payloads.CreateActorCommon).actor]);
+				break;
+			case 'create-empty-batch':
+				this.spawnActors(message, (payload as Payloads.CreateEmptyBatch).actors);
+				break;
+			case 'create-from-prefab':
+				this.spawnPrefab(message);
+				break;
+			case 'actor-update':
+				this._scene.updateActor((payload as Payloads.ActorUpdate).actor);
+				break;
+			case 'destroy-actors':
+				this._scene.destroyActors((payload as Payloads.DestroyActors).actorIds);
+				break;
+			case 'load-assets':
+				this.loadAssets(message).catch(e => log.error('network', e));
+				break;
+			case 'create-asset':
+				this.createAsset(message);
+				break;
+			case 'asset-update':
+				this._scene.updateAsset((payload as Payloads.AssetUpdate).asset);
+				break;
+			case 'unload-assets': {
+				const unload = payload as Payloads.UnloadAssets;
+				this._scene.unloadAssets(unload.containerId, unload.assetIds);
+				break;
+			}
+			case 'set-behavior': {
+				const setBehavior = payload as Payloads.SetBehavior;
+				this._scene.setBehavior(setBehavior.actorId, setBehavior.behaviorType);
+				break;
+			}
+			case 'create-animation': {
+				const { type, actorId, animationName, ...options } = payload as Payloads.CreateAnimation;
+				this._scene.createAnimation({
+					actorId,
+					animationName,
+					options,
+					state: { time: 0, speed: 1, enabled: false, ...options.initialState }
+				});
+				break;
+			}
+			case 'set-animation-state': {
+				const setState = payload as Payloads.SetAnimationState;
+				this._scene.setAnimationState(setState.actorId, setState.animationName, setState.state);
+				if (setState.state.enabled === false) {
+					// Disabling an interpolation stops it where it is.
+					clearTimeout(this._interpolations[setState.animationName]);
+					delete this._interpolations[setState.animationName];
+				}
+				break;
+			}
+			case 'sync-animations': {
+				// The session sends the states of the app's animations to joining clients, and asks for ours otherwise.
+				const syncAnimations = payload as Payloads.SyncAnimations;
+				if (syncAnimations.animationStates) {
+					for (const state of syncAnimations.animationStates) {
+						this.applyMessage({ payload: state });
+					}
+					break;
+				}
+				this.sendPayload({
+					type: 'sync-animations',
+					animationStates: this._scene.animations.map(anim => ({
+						type: 'set-animation-state',
+						actorId: anim.actorId,
+						animationName: anim.animationName,
+						state: anim.state
+					}))
+				} as Payloads.SyncAnimations, message.id);
+				break;
+			}
+			case 'interpolate-actor':
+				this.interpolateActor(payload as Payloads.InterpolateActor);
+				break;
+			case 'set-media-state':
+				this.setMediaState(payload as Payloads.SetMediaState);
+				break;
+			case 'user-update':
+				this._scene.updateUser((payload as Payloads.UserUpdate).user);
+				break;
+			case 'update-batch':
+				for (const batched of (payload as Payloads.UpdateBatch).messages) {
+					this.applyMessage(batched);
+				}
+				break;
+			case 'app2engine-rpc': {
+				const rpc = payload as Payloads.AppToEngineRPC;
+				this.emit('rpc', rpc.procName, rpc.args, rpc.userId);
+				break;
+			}
+			default:
+				// Remaining payloads (rigid body commands, actor reservations, etc.) don't affect the virtual scene.
+				break;
+		}
+	}
+
+	private spawnActors(message: Message, actors: Array<Partial<ActorLike>>, result?: Payloads.OperationResult) {
+		for (const actor of actors) {
+			this._scene.updateActor(actor);
+		}
+		this.sendPayload({
+			type: 'object-spawned',
+			actors: actors.map(actor => this._scene.actor(actor.id)),
+			result: result || { type: 'operation-result', resultCode: 'success', message: '' }
+		} as Payloads.ObjectSpawned, message.id);
+	}
+
+	private spawnPrefab(message: Message) {
+		const payload = message.payload as Payloads.CreateFromPrefab;
+		const prefab = this._scene.asset(payload.prefabId);
+		if (!prefab || !prefab.prefab) {
+			this.sendPayload({
+				type: 'operation-result',
+				resultCode: 'error',
+				message: `Prefab ${payload.prefabId} not found`
+			} as Payloads.OperationResult, message.id);
+			return;
+		}
+
+		// Instantiate the prefab's nodes beneath the requested root actor.
+		const actors = [payload.actor];
+		for (let i = 1; i < (prefab.prefab.actorCount || 1); i++) {
+			actors.push({
+				id: UUID(),
+				parentId: payload.actor.id,
+				name: `${prefab.name || 'node'}_${i}`
+			});
+		}
+		this.spawnActors(message, actors);
+
+		// The prefab's animation clips are added to the root actor, disabled.
+		for (const clip of prefab.prefab.animations || []) {
+			this._scene.createAnimation({
+				actorId: payload.actor.id,
+				animationName: clip.name,
+				options: { keyframes: [{ time: 0, value: {} }, { time: clip.duration, value: {} }] },
+				state: { time: 0, speed: 1, enabled: false }
+			});
+		}
+	}
+
+	private async loadAssets(message: Message) {
+		const payload = message.payload as Payloads.LoadAssets;
+		let assets: AssetLike[];
+		try {
+			const resolved = this.options.resolveGltf
+				? this.options.resolveGltf(payload.source.uri)
+				: [{ prefab: { actorCount: 1 } }];
+			// Add synchronously resolved assets right away, so the messages that follow the load can use them.
+			const definitions = resolved instanceof Promise ? await resolved : resolved;
+			assets = definitions.map((def, i) => ({
+				id: UUID(),
+				name: `${def.prefab ? 'prefab' : 'asset'}_${i}`,
+				...def,
+				source: {
+					...payload.source,
+					internalId: `${i}`,
+					...def.source
+				}
+			} as AssetLike));
+		} catch (e) {
+			this.sendPayload({
+				type: 'assets-loaded',
+				assets: [],
+				failureMessage: `Failed to load ${payload.source.uri}: ${e}`
+			} as Payloads.AssetsLoaded, message.id);
+			return;
+		}
+
+		this._scene.addAssets(payload.containerId, assets);
+		this.sendPayload({
+			type: 'assets-loaded',
+			assets,
+			failureMessage: null
+		} as Payloads.AssetsLoaded, message.id);
+	}
+
+	private createAsset(message: Message) {
+		const payload = message.payload as Payloads.CreateAsset;
+		const resolveAsset = this.options.resolveAsset || resolvePrimitiveMesh;
+		const asset = resolveAsset(payload.definition);
+		this._scene.addAssets(payload.containerId, [asset]);
+		this.sendPayload({
+			type: 'assets-loaded',
+			assets: [asset],
+			failureMessage: null
+		} as Payloads.AssetsLoaded, message.id);
+	}
+
+	private interpolateActor(payload: Payloads.InterpolateActor) {
+		if (!payload.enabled) {
+			return;
+		}
+		clearTimeout(this._interpolations[payload.animationName]);
+		// Jump to the final value once the interpolation would have finished, then report it like an engine would.
+		this._interpolations[payload.animationName] = setTimeout(() => {
+			delete this._interpolations[payload.animationName];
+			if (!this._scene.actor(payload.actorId)) {
+				return;
+			}
+			this._scene.updateActor({ ...payload.value, id: payload.actorId });
+			if (this._authoritative) {
+				this.sendPayload({
+					type: 'actor-update',
+					actor: { ...payload.value, id: payload.actorId }
+				} as Payloads.ActorUpdate);
+				this.sendPayload({
+					type: 'set-animation-state',
+					actorId: payload.actorId,
+					animationName: payload.animationName,
+					state: { enabled: false }
+				} as Payloads.SetAnimationState);
+			}
+		}, payload.duration * 1000);
+	}
+
+	private setMediaState(payload: Payloads.SetMediaState) {
+		switch (payload.mediaCommand) {
+			case MediaCommand.Start:
+				this._scene.startMedia({
+					id: payload.id,
+					actorId: payload.actorId,
+					mediaAssetId: payload.mediaAssetId,
+					options: { ...payload.options }
+				});
+				break;
+			case MediaCommand.Update:
+				this._scene.updateMedia(payload.id, payload.options);
+				break;
+			case MediaCommand.Stop:
+			default:
+				this._scene.stopMedia(payload.id);
+				break;
+		}
+	}
+}
+
+/**
+ * Estimate the engine-reported properties of a primitive mesh. Other assets are returned unchanged.
+ */
+function resolvePrimitiveMesh(definition: AssetLike): AssetLike {
+	const prim: PrimitiveDefinition = definition.mesh && definition.mesh.primitiveDefinition;
+	if (!prim) {
+		return definition;
+	}
+
+	const dims = { x: 1, y: 1, z: 1, ...prim.dimensions };
+	const u = prim.uSegments || (prim.shape === PrimitiveShape.Plane ? 1 : 36);
+	const v = prim.vSegments || (prim.shape === PrimitiveShape.Plane ? 1 : 18);
+	let vertexCount: number;
+	let triangleCount: number;
+	switch (prim.shape) {
+		case PrimitiveShape.Box:
+			vertexCount = 24;
+			triangleCount = 12;
+			break;
+		case PrimitiveShape.Cylinder:
+			vertexCount = 4 * (u + 1) + 2;
+			triangleCount = 4 * u;
+			break;
+		case PrimitiveShape.Plane:
+			dims.y = 0;
+			// falls through
+		default:
+			vertexCount = (u + 1) * (v + 1);
+			triangleCount = 2 * u * v;
+	}
+
+	return {
+		...definition,
+		mesh: {
+			...definition.mesh,
+			vertexCount,
+			triangleCount,
+			boundingBoxDimensions: dims,
+			boundingBoxCenter: { x: 0, y: 0, z: 0 }
+		}
+	};
+}
@@ -0,0 +1,30 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { Connection, Message } from '..';
+import * as Protocols from '../protocols';
+
+/**
+ * @hidden
+ * Client-side protocol used by the virtual engine. Responds to heartbeats on its own, and routes every other message
+ * over to the virtual engine client for processing.
+ */
+export class VirtualEngineProtocol extends Protocols.Protocol implements Protocols.Middleware {
+	constructor(conn: Connection) {
+		super(conn);
+		// Behave like a client-side endpoint (record latency, respond to heartbeats).
+		this.use(new Protocols.ClientPreprocessing(this));
+		// Use middleware to take incoming messages from the app and pipe them to the virtual client.
+		this.use(this);
+	}
+
+	/** @private */
+	public beforeRecv = (message: Message): Message => {
+		// Notify listeners we received a message from the application
+		this.emit('recv', message);
+		// Cancel the message
+		return undefined;
+	}
+}
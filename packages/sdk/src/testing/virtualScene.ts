@@ -0,0 +1,228 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import deepmerge from 'deepmerge';
+import {
+	ActorLike,
+	AssetLike,
+	BehaviorType,
+	CreateAnimationOptions,
+	SetAnimationStateOptions,
+	SetMediaStateOptions,
+	UserLike
+} from '..';
+
+/**
+ * An animation as created on the virtual engine.
+ */
+export type VirtualAnimation = {
+	actorId: string;
+	animationName: string;
+	options: CreateAnimationOptions;
+	state: SetAnimationStateOptions;
+};
+
+/**
+ * A sound or video instance currently playing on the virtual engine.
+ */
+export type VirtualMediaInstance = {
+	id: string;
+	actorId: string;
+	mediaAssetId: string;
+	options: SetMediaStateOptions;
+};
+
+// Replace arrays wholesale instead of concatenating them, the same as an engine applying a patch would.
+const overwriteArrays = { arrayMerge: (_: any[], source: any[]) => source };
+
+/**
+ * The virtual engine's view of the scene, built up from the messages it has received from the app.
+ */
+export class VirtualScene {
+	// tslint:disable:variable-name
+	private _actors: { [id: string]: Partial<ActorLike> } = {};
+	private _assets: { [id: string]: AssetLike } = {};
+	private _containers: { [id: string]: string[] } = {};
+	private _animations: { [actorId: string]: { [animationName: string]: VirtualAnimation } } = {};
+	private _behaviors: { [actorId: string]: BehaviorType } = {};
+	private _mediaInstances: { [id: string]: VirtualMediaInstance } = {};
+	private _users: { [id: string]: Partial<UserLike> } = {};
+	// tslint:enable:variable-name
+
+	/** All actors currently in the scene. */
+	public get actors() { return Object.values(this._actors); }
+	/** Actors without a parent. */
+	public get rootActors() { return this.actors.filter(a => !a.parentId || !this._actors[a.parentId]); }
+	/** All assets currently loaded. */
+	public get assets() { return Object.values(this._assets); }
+	/** All animations created on actors in the scene. */
+	public get animations() {
+		return Object.values(this._animations).reduce(
+			(all, byName) => all.concat(Object.values(byName)), [] as VirtualAnimation[]);
+	}
+	/** All media instances currently playing. */
+	public get mediaInstances() { return Object.values(this._mediaInstances); }
+	/** All users joined through this engine. */
+	public get users() { return Object.values(this._users); }
+
+	/**
+	 * Look up an actor by id.
+	 */
+	public actor(actorId: string): Partial<ActorLike> {
+		return this._actors[actorId];
+	}
+
+	/**
+	 * Look up an asset by id.
+	 */
+	public asset(assetId: string): AssetLike {
+		return this._assets[assetId];
+	}
+
+	/**
+	 * Look up a user by id.
+	 */
+	public user(userId: string): Partial<UserLike> {
+		return this._users[userId];
+	}
+
+	/**
+	 * Get the immediate children of the given actor.
+	 */
+	public children(actorId: string) {
+		return this.actors.filter(a => a.parentId === actorId);
+	}
+
+	/**
+	 * Find all actors with the given name.
+	 */
+	public findActorsByName(name: string) {
+		return this.actors.filter(a => a.name === name);
+	}
+
+	/**
+	 * Find the first asset with the given name.
+	 */
+	public findAssetByName(name: string) {
+		return this.assets.find(a => a.name === name);
+	}
+
+	/**
+	 * Get the animation with the given name on the given actor.
+	 */
+	public animation(actorId: string, animationName: string): VirtualAnimation {
+		return (this._animations[actorId] || {})[animationName];
+	}
+
+	/**
+	 * Get the behavior currently set on the given actor.
+	 */
+	public behavior(actorId: string): BehaviorType {
+		return this._behaviors[actorId] || 'none';
+	}
+
+	/** @hidden */
+	public updateActor(actor: Partial<ActorLike>) {
+		const existing = this._actors[actor.id] || {};
+		this._actors[actor.id] = deepmerge(existing, actor, overwriteArrays);
+	}
+
+	/** @hidden */
+	public destroyActors(actorIds: string[]) {
+		for (const actorId of actorIds) {
+			if (!this._actors[actorId]) {
+				continue;
+			}
+			// The engine destroys an actor's children along with it.
+			this.destroyActors(this.children(actorId).map(child => child.id));
+			delete this._actors[actorId];
+			delete this._animations[actorId];
+			delete this._behaviors[actorId];
+			for (const media of this.mediaInstances.filter(m => m.actorId === actorId)) {
+				delete this._mediaInstances[media.id];
+			}
+		}
+	}
+
+	/** @hidden */
+	public addAssets(containerId: string, assets: AssetLike[]) {
+		const ids = this._containers[containerId] = this._containers[containerId] || [];
+		for (const asset of assets) {
+			this._assets[asset.id] = deepmerge({}, asset);
+			ids.push(asset.id);
+		}
+	}
+
+	/** @hidden */
+	public updateAsset(asset: Partial<AssetLike>) {
+		const existing = this._assets[asset.id];
+		if (existing) {
+			this._assets[asset.id] = deepmerge(existing, asset, overwriteArrays);
+		}
+	}
+
+	/** @hidden */
+	public unloadAssets(containerId: string, assetIds?: string[]) {
+		if (assetIds) {
+			for (const assetId of assetIds) {
+				delete this._assets[assetId];
+			}
+			this._containers[containerId] = (this._containers[containerId] || []).filter(id => !assetIds.includes(id));
+			return;
+		}
+		for (const assetId of this._containers[containerId] || []) {
+			delete this._assets[assetId];
+		}
+		delete this._containers[containerId];
+	}
+
+	/** @hidden */
+	public createAnimation(animation: VirtualAnimation) {
+		const byName = this._animations[animation.actorId] = this._animations[animation.actorId] || {};
+		byName[animation.animationName] = animation;
+	}
+
+	/** @hidden */
+	public setAnimationState(actorId: string, animationName: string, state: SetAnimationStateOptions) {
+		const animation = this.animation(actorId, animationName);
+		if (animation) {
+			animation.state = { ...animation.state, ...state };
+		}
+	}
+
+	/** @hidden */
+	public setBehavior(actorId: string, behaviorType: BehaviorType) {
+		this._behaviors[actorId] = behaviorType;
+	}
+
+	/** @hidden */
+	public startMedia(media: VirtualMediaInstance) {
+		this._mediaInstances[media.id] = media;
+	}
+
+	/** @hidden */
+	public updateMedia(id: string, options: SetMediaStateOptions) {
+		const media = this._mediaInstances[id];
+		if (media) {
+			media.options = { ...media.options, ...options };
+		}
+	}
+
+	/** @hidden */
+	public stopMedia(id: string) {
+		delete this._mediaInstances[id];
+	}
+
+	/** @hidden */
+	public updateUser(user: Partial<UserLike>) {
+		const existing = this._users[user.id] || {};
+		this._users[user.id] = deepmerge(existing, user, overwriteArrays);
+	}
+
+	/** @hidden */
+	public removeUser(userId: string) {
+		delete this._users[userId];
+	}
+}
@@ -0,0 +1,59 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AnimationWrapMode, Context, SetAnimationStateOptions } from '..';
+import { Test } from './index';
+import { delay, withContext } from './util';
+
+/** @hidden */
+export default class AnimationEvents implements Test {
+	public name = 'Animation events';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			// Events travel to clients with the animation, and are raised app-side as playback passes them.
+			const once = await this.play(context, AnimationWrapMode.Once, {}, 150);
+			assert.deepStrictEqual(once.names, ['start', 'mid', 'end']);
+			assert.strictEqual(client.scene.animation(once.actor.id, 'anim').options.events.length, 3);
+
+			// Backwards playback passes them in reverse.
+			const backward = await this.play(context, AnimationWrapMode.Once, { time: -1, speed: -1 }, 150);
+			assert.deepStrictEqual(backward.names, ['end', 'mid', 'start']);
+
+			// Loops pass the end and then the start each time around.
+			const loop = await this.play(context, AnimationWrapMode.Loop, {}, 170);
+			assert.deepStrictEqual(loop.names.slice(0, 5), ['start', 'mid', 'end', 'start', 'mid']);
+
+			// Ping-pongs pass them going forward, then back.
+			const pingPong = await this.play(context, AnimationWrapMode.PingPong, {}, 170);
+			assert.deepStrictEqual(pingPong.names.slice(0, 4), ['start', 'mid', 'end', 'mid']);
+		});
+	}
+
+	/** Play a 100 ms animation with events at its start, middle and end, and return the names of those raised. */
+	private async play(context: Context, wrapMode: AnimationWrapMode, state: SetAnimationStateOptions, ms: number) {
+		const actor = Actor.CreateEmpty(context);
+		const animation = actor.createAnimation('anim', {
+			keyframes: [
+				{ time: 0, value: { transform: { local: { position: { x: 0 } } } } },
+				{ time: 0.1, value: { transform: { local: { position: { x: 1 } } } } },
+			],
+			events: [
+				{ name: 'start', value: 'start', time: 0 },
+				{ name: 'mid', value: 'mid', time: 0.05 },
+				{ name: 'end', value: 'end', time: 0.1 },
+			],
+			wrapMode
+		});
+		const names: string[] = [];
+		actor.onAnimationEvent('anim', event => names.push(event.name));
+		animation.setState({ ...state, enabled: true });
+		await delay(ms);
+		animation.pause();
+		actor.destroy();
+		return { actor, names };
+	}
+}
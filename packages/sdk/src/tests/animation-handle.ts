@@ -0,0 +1,76 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import UUID from 'uuid/v4';
+import { Actor, AnimationWrapMode } from '..';
+import { SetAnimationState } from '../types/network/payloads';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class AnimationHandle implements Test {
+	public name = 'Animation handles';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			const actor = Actor.CreateEmpty(context);
+			const animation = actor.createAnimation('slide', {
+				keyframes: [
+					{ time: 0, value: { transform: { local: { position: { x: 0 } } } } },
+					{ time: 1, value: { transform: { local: { position: { x: 10 } } } } },
+				],
+				wrapMode: AnimationWrapMode.Loop
+			});
+			assert.strictEqual(actor.animation('slide'), animation);
+			assert.strictEqual(animation.length, 1);
+			assert.strictEqual(animation.wrapMode, AnimationWrapMode.Loop);
+			assert.strictEqual(animation.enabled, false);
+			assert.strictEqual(animation.time, 0);
+
+			// Playback time is estimated from the last known state.
+			animation.play();
+			await delay(100);
+			assert.strictEqual(animation.enabled, true);
+			assert.ok(animation.time > 0.05 && animation.time < 0.3, `time is ${animation.time}`);
+			animation.pause();
+			const paused = animation.time;
+			await delay(20);
+			assert.strictEqual(animation.time, paused);
+			animation.seek(0.5);
+			assert.strictEqual(animation.time, 0.5);
+			assert.strictEqual(animation.sample().transform.local.position.x, 5);
+			animation.setState({ speed: 2 });
+			assert.strictEqual(animation.speed, 2);
+
+			// Changes reach clients.
+			await flushed(context);
+			assert.deepStrictEqual(client.scene.animation(actor.id, 'slide').state,
+				{ time: 0.5, speed: 2, enabled: false });
+
+			// States reported by clients update the handle.
+			client.conn.send({
+				id: UUID(),
+				payload: {
+					type: 'set-animation-state',
+					actorId: actor.id,
+					animationName: 'slide',
+					state: { time: 0.25, enabled: false }
+				} as SetAnimationState
+			});
+			await delay(10);
+			assert.strictEqual(animation.time, 0.25);
+
+			// Animations that run to their end finish.
+			animation.setState({ wrapMode: AnimationWrapMode.Once, time: 0.9, speed: 1 });
+			animation.play();
+			await animation.finished();
+			assert.strictEqual(animation.enabled, false);
+			assert.strictEqual(animation.time, 0);
+			animation.stop();
+			assert.strictEqual(animation.time, 0);
+		});
+	}
+}
@@ -0,0 +1,111 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import UUID from 'uuid/v4';
+import { Actor, AnimationKeyframeValue, AssetContainer, AssetLike, Context, MultipeerAdapter, Pipe } from '..';
+import { VirtualEngineClient } from '../testing';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class AnimationSampling implements Test {
+	public name = 'App-side animation sampling';
+
+	public async run() {
+		await withContext(async context => {
+			const actor = Actor.CreateEmpty(context, { actor: { light: { enabled: true, intensity: 0 } } });
+			const animation = actor.createAnimation('move', {
+				keyframes: [
+					{ time: 0, value: { transform: { local: { position: { x: 0 } } } } },
+					{ time: 1, value: { transform: { local: { position: { x: 1 } } }, light: { intensity: 2 } } },
+				]
+			});
+
+			// Playing animations move their actors app-side.
+			animation.play();
+			await delay(100);
+			const x = actor.transform.local.position.x;
+			assert.ok(x > 0.05 && x < 0.5, `x is ${x}`);
+			assert.strictEqual(actor.light.intensity, 2);
+
+			// Animations are sampled once per tick, however often the actor is read, unless they change.
+			let samples = 0;
+			const sample = animation.sample;
+			animation.sample = (time?: number): AnimationKeyframeValue => {
+				samples++;
+				return sample.call(animation, time);
+			};
+			await new Promise(resolve => setImmediate(resolve));
+			for (let i = 0; i < 10; i++) {
+				assert.ok(actor.transform.local.position.x >= x);
+				assert.ok(actor.worldTransform.position.x >= x);
+			}
+			assert.strictEqual(samples, 1);
+			animation.setState({ time: 0.75, speed: 0 });
+			assert.strictEqual(actor.transform.local.position.x, 0.75);
+			assert.strictEqual(samples, 2);
+			await new Promise(resolve => setImmediate(resolve));
+			assert.strictEqual(actor.transform.local.position.x, 0.75);
+			assert.strictEqual(samples, 3);
+
+			// Actors are posed where their animations end.
+			animation.setState({ time: 0.95, speed: 1 });
+			await animation.finished();
+			assert.strictEqual(actor.transform.local.position.x, 1);
+		});
+
+		await this.lateJoin();
+	}
+
+	/** Late joiners are synced from the authoritative peer, with the session's states filling in what it leaves out. */
+	private async lateJoin() {
+		const adapter = new MultipeerAdapter();
+		const started = new Promise<Context>(resolve => {
+			adapter.onConnection(connected => connected.onStarted(() => resolve(connected)));
+		});
+		// Every peer loads the same prefab.
+		const loaded = [{
+			id: UUID(),
+			prefab: { actorCount: 1, animations: [{ name: 'Idle', duration: 2, targetNames: [] as string[] }] }
+		}];
+		const first = await this.join(adapter, loaded);
+		const context = await started;
+		const [prefab] = await new AssetContainer(context).loadGltf('http://example.com/idle.glb');
+		const actor = Actor.CreateFromPrefab(context, { prefabId: prefab.id });
+		actor.createAnimation('move', {
+			keyframes: [
+				{ time: 0, value: { transform: { local: { position: { x: 0 } } } } },
+				{ time: 4, value: { transform: { local: { position: { x: 1 } } } } },
+			],
+			initialState: { enabled: true, weight: 0.5 }
+		});
+		await actor.created();
+		await flushed(context);
+		// The clip plays on its own on the authoritative peer, so the session never hears of it.
+		first.scene.setAnimationState(actor.id, 'Idle', { enabled: true, time: 1 });
+
+		const late = await this.join(adapter, loaded);
+		try {
+			await delay(50);
+			const idle = late.scene.animation(actor.id, 'Idle').state;
+			assert.strictEqual(idle.enabled, true);
+			assert.ok(idle.time >= 1, `time is ${idle.time}`);
+			const move = late.scene.animation(actor.id, 'move').state;
+			assert.strictEqual(move.enabled, true);
+			assert.strictEqual(move.weight, 0.5);
+		} finally {
+			late.disconnect();
+			first.disconnect();
+		}
+	}
+
+	private async join(adapter: MultipeerAdapter, loaded: Array<Partial<AssetLike>>) {
+		const pipe = new Pipe();
+		const client = new VirtualEngineClient(pipe.local, { resolveGltf: () => loaded });
+		await Promise.all([adapter.connectClient(pipe.remote, 'sampling'), client.connect()]);
+		return client;
+	}
+}
@@ -0,0 +1,138 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer } from '..';
+import { ZeroGuid } from '../constants';
+import { Message } from '../types/network/message';
+import { Test } from './index';
+import { flushed, withContext } from './util';
+
+/** @hidden */
+export default class AssetSharing implements Test {
+	public name = 'Shared assets';
+
+	public async run() {
+		await this.sharedInContext();
+		await this.sharedGltf();
+		await this.sharedAcrossContexts();
+	}
+
+	/** Containers in a context share identical meshes and materials, which are unloaded with their last reference. */
+	private async sharedInContext() {
+		await withContext(async (context, client) => {
+			const first = new AssetContainer(context, { shareAssets: true });
+			const second = new AssetContainer(context, { shareAssets: true });
+			const unshared = new AssetContainer(context);
+			const red = first.createMaterial('red', { color: { r: 1, g: 0, b: 0 } });
+			const alsoRed = second.createMaterial('crimson', { color: { r: 1, g: 0, b: 0 } });
+			const ownRed = unshared.createMaterial('red', { color: { r: 1, g: 0, b: 0 } });
+			const box = first.createBoxMesh('box', 1, 1, 1);
+			await Promise.all([red.created, ownRed.created, box.created]);
+			assert.strictEqual(alsoRed, red);
+			assert.notStrictEqual(ownRed, red);
+			assert.strictEqual(second.createBoxMesh('other box', 1, 1, 1), box);
+
+			// Shared assets are listed in every container using them, and counted once.
+			assert.deepStrictEqual(first.materials, [red]);
+			assert.deepStrictEqual(second.materials, [red]);
+			assert.deepStrictEqual(second.meshes, [box]);
+			assert.strictEqual(context.internal.getStats().materialCount, 2);
+			assert.strictEqual(context.internal.getStats().meshCount, 1);
+
+			// Snapshots save them once, without the container they're really kept in.
+			const snapshot = context.internal.saveSnapshot();
+			assert.strictEqual(snapshot.assetContainers.length, 3);
+			const saved = snapshot.assetContainers.map(container => container.assets.map(asset => asset.id));
+			assert.deepStrictEqual(saved.map(ids => ids.filter(id => id === red.id).length), [1, 0, 0]);
+
+			// Unloading releases the latest reference, and the last release unloads the asset.
+			const actor = Actor.CreateEmpty(context, { actor: { appearance: { materialId: red.id } } });
+			await actor.created();
+			red.unload();
+			assert.deepStrictEqual(first.materials, [red]);
+			assert.deepStrictEqual(second.materials, []);
+			assert.strictEqual(actor.appearance.materialId, red.id);
+			first.unloadAssets([red]);
+			assert.deepStrictEqual(first.materials, []);
+			assert.strictEqual(actor.appearance.materialId, ZeroGuid);
+			await flushed(context);
+			assert.strictEqual(client.scene.asset(red.id), undefined);
+			assert.ok(client.scene.asset(ownRed.id));
+
+			// Unloading a container releases its references, and creating the asset again makes a new one.
+			first.unload();
+			assert.deepStrictEqual(second.meshes, [box]);
+			second.unload();
+			await flushed(context);
+			assert.strictEqual(client.scene.asset(box.id), undefined);
+			const third = new AssetContainer(context, { shareAssets: true });
+			assert.notStrictEqual(third.createBoxMesh('box', 1, 1, 1), box);
+		});
+	}
+
+	/** Containers in a context share the assets of glTF files, which clients only load once. */
+	private async sharedGltf() {
+		await withContext(async (context, client) => {
+			let loads = 0;
+			client.on('message', (message: Message) => loads += message.payload.type === 'load-assets' ? 1 : 0);
+			const first = new AssetContainer(context, { shareAssets: true });
+			const second = new AssetContainer(context, { shareAssets: true });
+			const [prefab, copy, other] = await Promise.all([
+				first.loadGltf('http://localhost/model.glb'),
+				second.loadGltf('http://localhost/model.glb'),
+				second.loadGltf('http://localhost/model.glb', 'mesh')
+			]);
+			assert.strictEqual(loads, 2);
+			assert.deepStrictEqual(copy, prefab);
+			assert.notDeepStrictEqual(other, prefab);
+			assert.deepStrictEqual(first.prefabs, prefab);
+			assert.deepStrictEqual(second.prefabs, [...prefab, ...other]);
+			assert.throws(() => prefab[0].unload(), /Unload its container instead/);
+
+			// Files that fail to load aren't shared, so they're loaded again next time.
+			await Promise.all([
+				assert.rejects(first.loadGltf('http://localhost/missing.glb'), /not found/),
+				assert.rejects(second.loadGltf('http://localhost/missing.glb'), /not found/)
+			]);
+			await assert.rejects(first.loadGltf('http://localhost/missing.glb'), /not found/);
+			assert.strictEqual(loads, 4);
+
+			// The assets are unloaded with the last container using them.
+			first.unload();
+			await flushed(context);
+			assert.ok(client.scene.asset(prefab[0].id));
+			second.unload();
+			await flushed(context);
+			assert.strictEqual(client.scene.asset(prefab[0].id), undefined);
+		}, {
+			resolveGltf: uri => {
+				if (uri.includes('missing')) {
+					throw new Error('not found');
+				}
+				return [{ prefab: { actorCount: 1 } }];
+			}
+		});
+	}
+
+	/** Each session gets its own copy of a shared asset, with what earlier sessions' clients reported about it. */
+	private async sharedAcrossContexts() {
+		await withContext(async first => {
+			const box = new AssetContainer(first, { shareAssets: true }).createBoxMesh('box', 1, 2, 3);
+			await box.created;
+			assert.strictEqual(box.vertexCount, 24);
+
+			await withContext(async (second, client) => {
+				const copy = new AssetContainer(second, { shareAssets: true }).createBoxMesh('box', 1, 2, 3);
+				assert.notStrictEqual(copy.id, box.id);
+				assert.strictEqual(copy.vertexCount, 24, "known before the client replies");
+				assert.deepStrictEqual(copy.boundingBoxDimensions.toJSON(), { x: 1, y: 2, z: 3 });
+				await copy.created;
+				assert.ok(client.scene.asset(copy.id));
+				assert.strictEqual(client.scene.asset(box.id), undefined);
+			});
+		});
+	}
+}
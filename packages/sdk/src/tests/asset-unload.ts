@@ -0,0 +1,94 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer } from '..';
+import { ZeroGuid } from '../constants';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class AssetUnload implements Test {
+	public name = 'Asset unloading';
+
+	public async run() {
+		await this.unloadOne();
+		await this.autoUnload();
+	}
+
+	/** Assets can be unloaded on their own, leaving the rest of their container loaded. */
+	private async unloadOne() {
+		await withContext(async (context, client) => {
+			const container = new AssetContainer(context);
+			const mesh = container.createBoxMesh('box', 1, 1, 1);
+			const material = container.createMaterial('red', {});
+			const actor = Actor.CreateEmpty(context, {
+				actor: { appearance: { meshId: mesh.id, materialId: material.id } }
+			});
+			await Promise.all([actor.created(), mesh.created, material.created]);
+			const before = context.internal.getStats();
+
+			// Actors using an unloaded asset stop using it, and clients are told to unload it.
+			mesh.unload();
+			assert.strictEqual(actor.appearance.meshId, ZeroGuid);
+			assert.deepStrictEqual(container.meshes, []);
+			assert.deepStrictEqual(container.materials, [material]);
+			await flushed(context);
+			assert.strictEqual(client.scene.asset(mesh.id), undefined);
+			assert.strictEqual(client.scene.actor(actor.id).appearance.meshId, ZeroGuid);
+			assert.ok(client.scene.asset(material.id));
+
+			// The memory they freed is reported.
+			const after = context.internal.getStats();
+			assert.strictEqual(after.meshCount, before.meshCount - 1);
+			assert.strictEqual(after.unloadedAssetCount, before.unloadedAssetCount + 1);
+			assert.strictEqual(after.unloadedMeshVerticesTotal, before.unloadedMeshVerticesTotal + 24);
+			assert.strictEqual(after.meshVerticesTotal, before.meshVerticesTotal - 24);
+
+			// Unloading an asset twice does nothing.
+			mesh.unload();
+			assert.strictEqual(context.internal.getStats().unloadedAssetCount, after.unloadedAssetCount);
+
+			// Assets from glTF files can only be unloaded with their container.
+			const [prefab] = await container.loadGltf('http://localhost/model.glb');
+			assert.throws(() => prefab.unload(), /Unload its container instead/);
+			container.unload();
+			assert.strictEqual(context.internal.getStats().unloadedAssetCount, after.unloadedAssetCount + 2);
+		});
+	}
+
+	/** Containers can unload their assets once nothing has used them for a while. */
+	private async autoUnload() {
+		await withContext(async (context, client) => {
+			const container = new AssetContainer(context, { autoUnload: true, autoUnloadDelay: 0.05 });
+			const texture = container.createTexture('checker', { uri: 'checker.png' });
+			const material = container.createMaterial('checked', { mainTextureId: texture.id });
+			const spare = container.createMaterial('spare', {});
+			const actor = Actor.CreateEmpty(context, { actor: { appearance: { materialId: material.id } } });
+			await Promise.all([actor.created(), texture.created, material.created, spare.created]);
+
+			// Assets that are used again before the delay is up stay loaded.
+			actor.appearance.material = null;
+			await delay(20);
+			actor.appearance.material = material;
+			await delay(80);
+			assert.ok(container.materials.includes(material));
+
+			// Released assets are unloaded once the delay is up, along with the assets only they used.
+			actor.appearance.material = null;
+			await delay(20);
+			assert.ok(container.materials.includes(material));
+			await delay(150);
+			assert.ok(!container.materials.includes(material));
+			assert.deepStrictEqual(container.textures, []);
+			await flushed(context);
+			assert.strictEqual(client.scene.asset(material.id), undefined);
+			assert.strictEqual(client.scene.asset(texture.id), undefined);
+
+			// Assets that were never used aren't unloaded.
+			assert.deepStrictEqual(container.materials, [spare]);
+		});
+	}
+}
@@ -0,0 +1,147 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, ButtonBehavior, Context, MultipeerAdapter, Pipe } from '..';
+import { VirtualEngineClient, VirtualEngineClientOptions } from '../testing';
+import { Message } from '../types/network/message';
+import { UpdateBatch } from '../types/network/payloads';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class Batch implements Test {
+	public name = 'Batched changes';
+
+	public async run() {
+		// Clients that can apply a batch at once are sent it in one message.
+		await withContext(async (context, client) => {
+			const actor = Actor.CreateEmpty(context, { actor: { name: 'batched' } });
+			await actor.created();
+			await flushed(context);
+
+			const messages: Message[] = [];
+			client.on('message', (message: Message) => messages.push(message));
+			let created: Actor;
+			context.batch(() => {
+				actor.transform.local.position.x = 1;
+				actor.setBehavior(ButtonBehavior);
+				created = Actor.CreateEmpty(context, { actor: { name: 'created', parentId: actor.id } });
+			});
+			await created.created();
+			assert.deepStrictEqual(messages.map(message => message.payload.type), ['update-batch']);
+			const batched = (messages[0].payload as UpdateBatch).messages;
+			assert.deepStrictEqual(batched.map(message => message.payload.type),
+				['actor-update', 'set-behavior', 'create-empty']);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.x, 1);
+			assert.strictEqual(client.scene.behavior(actor.id), 'button');
+
+			// Single messages aren't wrapped.
+			messages.length = 0;
+			context.batch(() => actor.transform.local.position.x = 2);
+			await delay(10);
+			assert.deepStrictEqual(messages.map(message => message.payload.type), ['actor-update']);
+		});
+
+		// Others are sent its messages back to back.
+		await withContext(async (context, client) => {
+			const actor = Actor.CreateEmpty(context, { actor: { name: 'batched' } });
+			await actor.created();
+			await flushed(context);
+
+			const types: string[] = [];
+			client.on('message', (message: Message) => types.push(message.payload.type));
+
+			// Everything sent in a batch is held back, and reaches clients in the order it was made.
+			let created: Actor;
+			const result = context.batch(() => {
+				actor.transform.local.position.x = 1;
+				actor.setBehavior(ButtonBehavior);
+				actor.transform.local.position.y = 2;
+				created = Actor.CreateEmpty(context, { actor: { name: 'created', parentId: actor.id } });
+				return 'done';
+			});
+			assert.strictEqual(result, 'done');
+			await delay(10);
+			assert.deepStrictEqual(types, ['actor-update', 'set-behavior', 'actor-update', 'create-empty']);
+			await created.created();
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.y, 2);
+			assert.strictEqual(client.scene.actor(created.id).parentId, actor.id);
+
+			// Async batches hold changes until they settle, and pass on their results.
+			types.length = 0;
+			const value = await context.batch(async () => {
+				actor.transform.local.position.z = 3;
+				await delay(20);
+				assert.deepStrictEqual(types, []);
+				actor.transform.local.scale.x = 4;
+				return 42;
+			});
+			assert.strictEqual(value, 42);
+			await delay(10);
+			assert.deepStrictEqual(types, ['actor-update']);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.z, 3);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.scale.x, 4);
+
+			// Changes are still sent if the batch fails.
+			types.length = 0;
+			await assert.rejects(context.batch(async () => {
+				actor.transform.local.position.x = 5;
+				throw new Error('failed');
+			}), /failed/);
+			await delay(10);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.x, 5);
+
+			// Nested batches are sent when the outermost one ends.
+			types.length = 0;
+			context.batch(() => {
+				context.batch(() => actor.transform.local.position.x = 6);
+				actor.transform.local.position.x = 7;
+			});
+			await delay(10);
+			assert.deepStrictEqual(types, ['actor-update']);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.x, 7);
+		}, { capabilities: ['create-empty-batch'] });
+
+		await this.multipeer();
+	}
+
+	/** Multi-peer sessions pass batches on to the clients that can apply them, and unpack them for the rest. */
+	private async multipeer() {
+		const adapter = new MultipeerAdapter();
+		const started = new Promise<Context>(resolve => {
+			adapter.onConnection(connected => connected.onStarted(() => resolve(connected)));
+		});
+		const first = await this.join(adapter);
+		const context = await started;
+		const late = await this.join(adapter, { capabilities: [] });
+		const firstTypes: string[] = [];
+		const lateTypes: string[] = [];
+		first.on('message', (message: Message) => firstTypes.push(message.payload.type));
+		late.on('message', (message: Message) => lateTypes.push(message.payload.type));
+		try {
+			let actor: Actor;
+			context.batch(() => {
+				actor = Actor.CreateEmpty(context, { actor: { name: 'batched' } });
+				actor.setBehavior(ButtonBehavior);
+			});
+			await actor.created();
+			await delay(50);
+			assert.deepStrictEqual(firstTypes.filter(type => type !== 'heartbeat'), ['update-batch']);
+			assert.deepStrictEqual(lateTypes.filter(type => type !== 'heartbeat'), ['create-empty', 'set-behavior']);
+			assert.strictEqual(late.scene.behavior(actor.id), 'button');
+		} finally {
+			late.disconnect();
+			first.disconnect();
+		}
+	}
+
+	private async join(adapter: MultipeerAdapter, options?: VirtualEngineClientOptions) {
+		const pipe = new Pipe();
+		const client = new VirtualEngineClient(pipe.local, options);
+		await Promise.all([adapter.connectClient(pipe.remote, 'batch'), client.connect()]);
+		return client;
+	}
+}
@@ -0,0 +1,100 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { BitmapFont, Canvas, defaultFont } from '..';
+import { Test } from './index';
+
+const red = { r: 1, g: 0, b: 0, a: 1 };
+
+/** @hidden */
+export default class CanvasTest implements Test {
+	public name = 'Canvas drawing';
+
+	public async run() {
+		this.shapes();
+		this.text();
+		this.performance();
+	}
+
+	/** Shapes are anti-aliased, and clipped to the canvas. */
+	private shapes() {
+		const canvas = new Canvas(4, 4);
+		canvas.fillRect(0.5, 1, 2, 1, red);
+		assert.deepStrictEqual(pixel(canvas, 0, 1), [255, 0, 0, 128]);
+		assert.deepStrictEqual(pixel(canvas, 1, 1), [255, 0, 0, 255]);
+		assert.deepStrictEqual(pixel(canvas, 2, 1), [255, 0, 0, 128]);
+		assert.deepStrictEqual(pixel(canvas, 1, 0), [0, 0, 0, 0]);
+
+		// Shapes partly or entirely off the canvas draw what's on it, if anything.
+		canvas.clear().fillCircle(0, 0, 2, red);
+		assert.deepStrictEqual(pixel(canvas, 0, 0), [255, 0, 0, 255]);
+		assert.deepStrictEqual(pixel(canvas, 3, 3), [0, 0, 0, 0]);
+		canvas.clear()
+			.fillRect(-10, -10, 5, 5, red)
+			.fillCircle(100, 100, 3, red)
+			.drawLine(-5, 10, 10, 10, red)
+			.strokeRect(4, 0, 4, 4, red)
+			.drawText('far', -100, 0);
+		assert.ok(canvas.pixels.rgba.every(byte => byte === 0));
+	}
+
+	/** Text is drawn in the default font, or one given by the caller. */
+	private text() {
+		const plain = new Canvas(24, 8).clear();
+		plain.drawText('e', 0, 0, { height: 8 });
+		assert.ok(plain.pixels.rgba.some(byte => byte !== 0));
+
+		// Accented characters missing from the font are drawn without their accents, and others as question marks.
+		const accented = new Canvas(24, 8);
+		accented.drawText('é', 0, 0, { height: 8 });
+		assert.deepStrictEqual(accented.pixels.rgba, plain.pixels.rgba);
+		const unknown = new Canvas(24, 8);
+		const question = new Canvas(24, 8);
+		unknown.drawText('€', 0, 0, { height: 8 });
+		question.drawText('?', 0, 0, { height: 8 });
+		assert.deepStrictEqual(unknown.pixels.rgba, question.pixels.rgba);
+
+		// Surrogate pairs are a single character.
+		assert.strictEqual(plain.measureText('😀', { height: 8 }).width, plain.measureText('?', { height: 8 }).width);
+
+		// Fonts can be extended with more glyphs, or replaced outright.
+		const euro: BitmapFont = {
+			...defaultFont,
+			glyphs: { ...defaultFont.glyphs, '€': ['  ###', ' #   ', '#### ', ' #   ', '#### ', ' #   ', '  ###'] }
+		};
+		const custom = new Canvas(24, 8);
+		custom.drawText('€', 0, 0, { height: 8, font: euro });
+		assert.notDeepStrictEqual(custom.pixels.rgba, question.pixels.rgba);
+		assert.deepStrictEqual(pixel(custom, 0, 2), [255, 255, 255, 255]);
+		assert.deepStrictEqual(pixel(custom, 0, 0), [0, 0, 0, 0]);
+
+		const block: BitmapFont = { glyphWidth: 2, glyphHeight: 2, glyphs: { x: ['##', '##'] } };
+		const blocks = new Canvas(6, 3);
+		const size = blocks.drawText('xx', 0, 0, { height: 3, font: block });
+		assert.deepStrictEqual(size, { width: 5, height: 3 });
+		assert.deepStrictEqual([0, 1, 2, 3, 4, 5].map(x => pixel(blocks, x, 0)[3]), [255, 255, 0, 255, 255, 0]);
+		assert.deepStrictEqual(pixel(blocks, 0, 2), [0, 0, 0, 0]);
+		// Characters with no glyph, not even a question mark, are left blank.
+		blocks.clear().drawText('y', 0, 0, { height: 3, font: block });
+		assert.ok(blocks.pixels.rgba.every(byte => byte === 0));
+	}
+
+	/** Drawing only touches the pixels a shape could cover, however large the canvas. */
+	private performance() {
+		const canvas = new Canvas(2048, 2048);
+		const start = Date.now();
+		for (let i = 0; i < 500; i++) {
+			canvas.fillRect(i, i, 1, 1, red).fillCircle(i, 2047 - i, 1, red).drawText('.', 2047 - i, i, { height: 8 });
+		}
+		assert.ok(Date.now() - start < 2000, `took ${Date.now() - start} ms`);
+		assert.deepStrictEqual(pixel(canvas, 10, 10), [255, 0, 0, 255]);
+	}
+}
+
+function pixel(canvas: Canvas, x: number, y: number) {
+	const i = (y * canvas.width + x) * 4;
+	return Array.from(canvas.pixels.rgba.slice(i, i + 4));
+}
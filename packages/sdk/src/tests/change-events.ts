@@ -0,0 +1,50 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer, ChangeEvent } from '..';
+import { Test } from './index';
+import { flushed, withContext } from './util';
+
+/** @hidden */
+export default class ChangeEvents implements Test {
+	public name = 'Change events';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			const actor = Actor.CreateEmpty(context, { actor: { name: 'watched' } });
+			const material = new AssetContainer(context).createMaterial('mat', {});
+			await actor.created();
+
+			const actorEvents: Array<ChangeEvent<Actor>> = [];
+			const contextEvents: Array<ChangeEvent<any>> = [];
+			const materialPaths: string[] = [];
+			actor.onChanged('transform.local.position', event => actorEvents.push(event));
+			material.onChanged('material.color', event => materialPaths.push(...event.paths));
+			context.onChanged(event => contextEvents.push(event));
+
+			// Changes made by the app are reported as local, filtered by path.
+			actor.transform.local.position.x = 2;
+			actor.transform.local.scale.y = 3;
+			material.material.color.r = 0.5;
+			assert.deepStrictEqual(actorEvents.map(event => [event.source, event.paths]),
+				[['local', ['transform.local.position.x']]]);
+			assert.strictEqual(actorEvents[0].target, actor);
+			assert.ok(materialPaths.includes('material.color.r'));
+			assert.ok(contextEvents.some(event => event.target === actor &&
+				event.paths.includes('transform.local.scale.y')));
+			assert.ok(contextEvents.some(event => event.target === material));
+
+			// Changes reported by clients are reported as such.
+			actorEvents.length = 0;
+			client.updateActor({ id: actor.id, transform: { local: { position: { x: 7, y: 0, z: 0 } } } });
+			await flushed(context);
+			assert.strictEqual(actor.transform.local.position.x, 7);
+			assert.strictEqual(actorEvents.length, 1);
+			assert.strictEqual(actorEvents[0].source, 'client');
+			assert.ok(actorEvents[0].paths.includes('transform.local.position.x'));
+		});
+	}
+}
@@ -0,0 +1,100 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, Context, MultipeerAdapter, Pipe } from '..';
+import { VirtualEngineClient, VirtualEngineClientOptions } from '../testing';
+import { Message } from '../types/network/message';
+import { Test } from './index';
+import { delay, withContext } from './util';
+
+/** @hidden */
+export default class Clone implements Test {
+	public name = 'Actor cloning';
+
+	public async run() {
+		// Clients advertising support are sent the whole hierarchy at once.
+		await withContext(async (context, client) => {
+			const types = await this.cloneHierarchy(context, client);
+			assert.strictEqual(types.filter(type => type === 'create-empty-batch').length, 1);
+			assert.strictEqual(types.filter(type => type === 'create-empty').length, 0);
+		});
+
+		// Others are sent an actor at a time.
+		await withContext(async (context, client) => {
+			const types = await this.cloneHierarchy(context, client);
+			assert.strictEqual(types.filter(type => type === 'create-empty-batch').length, 0);
+			assert.strictEqual(types.filter(type => type === 'create-empty').length, 3);
+		}, { capabilities: [] });
+
+		await this.multipeer();
+	}
+
+	/** Multi-peer sessions advertise batches when their first client supports them, and split them for others. */
+	private async multipeer() {
+		const adapter = new MultipeerAdapter();
+		const started = new Promise<Context>(resolve => {
+			adapter.onConnection(connected => connected.onStarted(() => resolve(connected)));
+		});
+		const first = await this.join(adapter);
+		const context = await started;
+		const late = await this.join(adapter, { capabilities: [] });
+		const lateTypes: string[] = [];
+		late.on('message', (message: Message) => lateTypes.push(message.payload.type));
+		try {
+			const types = await this.cloneHierarchy(context, first);
+			assert.deepStrictEqual(types.filter(type => type.startsWith('create-')), ['create-empty-batch']);
+
+			await delay(50);
+			assert.strictEqual(lateTypes.filter(type => type === 'create-empty-batch').length, 0);
+			assert.strictEqual(lateTypes.filter(type => type === 'create-empty').length, 6);
+			assert.strictEqual(late.scene.findActorsByName('grandchild').length, 2);
+
+			// Replies to split batches are combined for the app once such a client is authoritative.
+			first.disconnect();
+			await delay(50);
+			assert.strictEqual(late.authoritative, true);
+			const splitTypes = await this.cloneHierarchy(context, late);
+			assert.strictEqual(splitTypes.filter(type => type === 'create-empty').length, 3);
+		} finally {
+			late.disconnect();
+			first.disconnect();
+		}
+	}
+
+	private async join(adapter: MultipeerAdapter, options?: VirtualEngineClientOptions) {
+		const pipe = new Pipe();
+		const client = new VirtualEngineClient(pipe.local, options);
+		await Promise.all([adapter.connectClient(pipe.remote, 'clone'), client.connect()]);
+		return client;
+	}
+
+	/** Clone a three actor hierarchy, check the clones, and return the types of the messages the client received. */
+	private async cloneHierarchy(context: Context, client: VirtualEngineClient) {
+		const root = Actor.CreateEmpty(context, { actor: { name: 'root' } });
+		const child = Actor.CreateEmpty(context, { actor: { name: 'child', parentId: root.id } });
+		Actor.CreateEmpty(context, { actor: { name: 'grandchild', parentId: child.id } });
+		child.transform.local.position.x = 4;
+		await root.created();
+
+		const types: string[] = [];
+		const record = (message: Message) => types.push(message.payload.type);
+		client.on('message', record);
+		try {
+			const clone = root.clone();
+			await Promise.all([clone, ...clone.children, ...clone.children[0].children].map(actor => actor.created()));
+
+			assert.notStrictEqual(clone.id, root.id);
+			assert.strictEqual(clone.children[0].name, 'child');
+			assert.strictEqual(clone.children[0].children[0].name, 'grandchild');
+			const clonedChild = client.scene.actor(clone.children[0].id);
+			assert.strictEqual(clonedChild.parentId, clone.id);
+			assert.strictEqual(clonedChild.transform.local.position.x, 4);
+		} finally {
+			client.off('message', record);
+		}
+		return types;
+	}
+}
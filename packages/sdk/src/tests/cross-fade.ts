@@ -0,0 +1,134 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AnimationBlendMode, AnimationWrapMode, Context, MultipeerAdapter, Pipe } from '..';
+import { VirtualEngineClient } from '../testing';
+import { Message } from '../types/network/message';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class CrossFade implements Test {
+	public name = 'Animation blending and cross-fades';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			const actor = this.createAvatar(context);
+			const idle = actor.animation('idle');
+			const walk = actor.animation('walk');
+			idle.play();
+
+			// Weights move from one animation to the other over the fade.
+			const faded = actor.crossFade('idle', 'walk', 0.2);
+			assert.strictEqual(walk.enabled, true);
+			await delay(100);
+			assert.ok(idle.weight > 0 && idle.weight < 1, `idle weight is ${idle.weight}`);
+			assert.ok(walk.weight > 0 && walk.weight < 1, `walk weight is ${walk.weight}`);
+			await faded;
+			assert.strictEqual(idle.enabled, false);
+			assert.strictEqual(idle.weight, 1);
+			assert.strictEqual(walk.weight, 1);
+			await flushed(context);
+			assert.strictEqual(client.scene.animation(actor.id, 'idle').state.enabled, false);
+			assert.strictEqual(client.scene.animation(actor.id, 'walk').state.weight, 1);
+
+			// Fading an animation again ends its earlier fade where it is.
+			const first = actor.crossFade('walk', 'idle', 10);
+			const second = actor.crossFade('idle', 'walk', 0.05);
+			await first;
+			await second;
+			assert.strictEqual(walk.weight, 1);
+
+			// Fades settle without an error when an animation is missing or the actor is destroyed.
+			await actor.crossFade('walk', 'run', 1);
+			const interrupted = actor.crossFade('walk', 'idle', 10);
+			const finished = actor.animation('idle').finished();
+			actor.destroy();
+			await interrupted;
+			await finished;
+		});
+
+		await this.rateLimited();
+		await this.lateJoin();
+	}
+
+	/** Fades step the weights along with the context's updates, no more often than its maximum update rate. */
+	private async rateLimited() {
+		const pipe = new Pipe();
+		const context = new Context({ connection: pipe.remote, maxUpdateRate: 5 });
+		context.internal.startListening().catch(() => pipe.remote.close());
+		const client = new VirtualEngineClient(pipe.local);
+		try {
+			await client.connect();
+			context.internal.start();
+			const actor = this.createAvatar(context);
+			actor.animation('idle').play();
+			await actor.created();
+			await flushed(context);
+
+			let stateChanges = 0;
+			client.on('message', (message: Message) => {
+				if (message.payload.type === 'set-animation-state') {
+					stateChanges++;
+				}
+			});
+			await actor.crossFade('idle', 'walk', 0.5);
+			// Each step sets both weights, and the last also disables the faded out animation.
+			assert.ok(stateChanges <= 12, `${stateChanges} state changes sent`);
+			await flushed(context);
+			assert.strictEqual(client.scene.animation(actor.id, 'walk').state.weight, 1);
+		} finally {
+			client.disconnect();
+		}
+	}
+
+	/** Blend states reach clients that join after they were set. */
+	private async lateJoin() {
+		const adapter = new MultipeerAdapter();
+		const started = new Promise<Context>(resolve => {
+			adapter.onConnection(connected => connected.onStarted(() => resolve(connected)));
+		});
+		const first = await this.join(adapter);
+		const context = await started;
+		const actor = this.createAvatar(context);
+		actor.animation('walk').setState({ enabled: true, weight: 0.25, layer: 1, blendMode: AnimationBlendMode.Additive });
+		await flushed(context);
+
+		const late = await this.join(adapter);
+		try {
+			await delay(50);
+			const state = late.scene.animation(actor.id, 'walk').state;
+			assert.strictEqual(state.enabled, true);
+			assert.strictEqual(state.weight, 0.25);
+			assert.strictEqual(state.layer, 1);
+			assert.strictEqual(state.blendMode, AnimationBlendMode.Additive);
+		} finally {
+			late.disconnect();
+			first.disconnect();
+		}
+	}
+
+	private createAvatar(context: Context) {
+		const actor = Actor.CreateEmpty(context);
+		for (const name of ['idle', 'walk']) {
+			actor.createAnimation(name, {
+				keyframes: [
+					{ time: 0, value: { transform: { local: { position: { y: 0 } } } } },
+					{ time: 1, value: { transform: { local: { position: { y: 1 } } } } },
+				],
+				wrapMode: AnimationWrapMode.Loop
+			});
+		}
+		return actor;
+	}
+
+	private async join(adapter: MultipeerAdapter) {
+		const pipe = new Pipe();
+		const client = new VirtualEngineClient(pipe.local);
+		await Promise.all([adapter.connectClient(pipe.remote, 'late-join'), client.connect()]);
+		return client;
+	}
+}
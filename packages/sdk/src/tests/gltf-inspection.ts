@@ -0,0 +1,100 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { AssetCatalog, AssetContainer, WebHost } from '..';
+import { Test } from './index';
+import { assertNear, startWebHost, withContext } from './util';
+
+/** @hidden */
+export default class GltfInspection implements Test {
+	public name = 'glTF inspection';
+
+	public async run() {
+		const webHost = await startWebHost();
+		const gltf = Buffer.from(JSON.stringify({
+			asset: { version: '2.0' },
+			accessors: [{ count: 24, componentType: 5126, type: 'VEC3', min: [-1, -1, -1], max: [1, 2, 3] }],
+			meshes: [{ name: 'cube', primitives: [{ attributes: { POSITION: 0 } }] }],
+			nodes: [{ name: 'root', mesh: 0 }]
+		}));
+
+		// Count the requests for each file, to tell when the app reads it.
+		const requests: { [path: string]: number } = {};
+		const server = http.createServer((req, res) => {
+			requests[req.url] = (requests[req.url] || 0) + 1;
+			if (req.url === '/model.gltf') {
+				res.end(gltf);
+			} else if (req.url === '/invalid.gltf') {
+				res.end('{}');
+			} else {
+				res.statusCode = 404;
+				res.end();
+			}
+		});
+		await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+		const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+		try {
+			// The client reports no mesh or prefab stats, so any filled in come from the app's reading of the file.
+			await withContext(async context => {
+				// Loading a file reads it, and fills in what the client doesn't report.
+				const first = new AssetContainer(context);
+				const [prefab, mesh] = await first.loadGltf(`${baseUrl}/model.gltf`);
+				assert.strictEqual(requests['/model.gltf'], 1);
+				assert.strictEqual(prefab.prefab.actorCount, 2);
+				assert.strictEqual(mesh.mesh.vertexCount, 24);
+				assert.strictEqual(mesh.mesh.triangleCount, 8);
+				assertNear(mesh.mesh.boundingBoxDimensions, { x: 2, y: 3, z: 4 });
+
+				// Inspecting a loaded file doesn't read it again.
+				const info = await first.inspectGltf(`${baseUrl}/model.gltf`);
+				assert.strictEqual(requests['/model.gltf'], 1);
+				assert.strictEqual(info.actorCount, 2);
+				assert.strictEqual(info.nodes[0].name, 'root');
+				assert.strictEqual(info.meshes[0].vertexCount, 24);
+				assert.strictEqual(info.meshes[0].triangleCount, 8);
+				assertNear(info.meshes[0].boundingBoxDimensions, { x: 2, y: 3, z: 4 });
+				assertNear(info.meshes[0].boundingBoxCenter, { x: 0, y: 0.5, z: -1 });
+
+				// Nor does loading it into another container.
+				const second = new AssetContainer(context);
+				const [filledPrefab] = await second.loadGltf(`${baseUrl}/model.gltf`);
+				assert.strictEqual(filledPrefab.prefab.actorCount, 2);
+				assert.strictEqual(requests['/model.gltf'], 1);
+
+				// Once no container has the file loaded, it's read again.
+				first.unload();
+				second.unload();
+				await first.inspectGltf(`${baseUrl}/model.gltf`);
+				assert.strictEqual(requests['/model.gltf'], 2);
+
+				// Files the app can't read are still loaded, without the details.
+				const [unread] = await new AssetContainer(context).loadGltf(`${baseUrl}/unreadable.gltf`);
+				assert.strictEqual(unread.prefab.actorCount, undefined);
+			}, { resolveGltf: () => [{ prefab: {} }, { name: 'cube', mesh: {} }] });
+
+			// Relative URIs are resolved against the app's base URL.
+			const hosted = webHost.bufferHost.hostBuffer(gltf, '.gltf');
+			try {
+				const relative = 'buffers/' + hosted.split('/').pop();
+				assert.strictEqual(WebHost.resolveUrl(relative), hosted);
+				assert.strictEqual((await AssetCatalog.inspectGltf(relative)).actorCount, 2);
+			} finally {
+				webHost.bufferHost.releaseBuffer(hosted);
+			}
+
+			// Failures to download or parse a file are reported, and aren't remembered.
+			await assert.rejects(AssetCatalog.inspectGltf(`${baseUrl}/missing.gltf`), /HTTP 404/);
+			await assert.rejects(AssetCatalog.inspectGltf(`${baseUrl}/missing.gltf`), /HTTP 404/);
+			assert.strictEqual(requests['/missing.gltf'], 2);
+			await assert.rejects(AssetCatalog.inspectGltf(`${baseUrl}/invalid.gltf`), /Not a glTF 2.0 file/);
+		} finally {
+			server.close();
+		}
+	}
+}
@@ -0,0 +1,71 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { AssetContainer, Context, MultipeerAdapter, Pipe } from '..';
+import { VirtualEngineClient } from '../testing';
+import fetchBuffer from '../utils/fetchBuffer';
+import { Test } from './index';
+import { flushed, startWebHost, withContext } from './util';
+
+/** @hidden */
+export default class HostedBuffers implements Test {
+	public name = 'glTF files from buffers';
+
+	public async run() {
+		await startWebHost();
+		const gltf = Buffer.from(JSON.stringify({ asset: { version: '2.0' }, nodes: [{ name: 'hosted' }] }));
+		await withContext(async (context, client) => {
+			// Buffers are served under URLs derived from their content, shared by the containers that load them.
+			const first = new AssetContainer(context);
+			const second = new AssetContainer(context);
+			const [prefab] = await first.loadGltfFromBuffer(gltf);
+			const [copy] = await second.loadGltfFromBuffer(gltf);
+			const uri = prefab.source.uri;
+			assert.ok(/\/[0-9a-f]{64}\.gltf$/.test(uri), uri);
+			assert.strictEqual(copy.source.uri, uri);
+			assert.strictEqual(client.scene.asset(prefab.id).source.uri, uri);
+			assert.ok((await fetchBuffer(uri)).equals(gltf));
+
+			// They're served until every container using them is unloaded.
+			first.unload();
+			await flushed(context);
+			assert.ok((await fetchBuffer(uri)).equals(gltf));
+			second.unload();
+			await flushed(context);
+			await assert.rejects(fetchBuffer(uri));
+
+			// Invalid files are rejected before anything is hosted or sent to clients.
+			const third = new AssetContainer(context);
+			await assert.rejects(third.loadGltfFromBuffer(Buffer.from('not a glTF file')));
+			assert.deepStrictEqual(third.assets, []);
+			third.unload();
+		});
+
+		await this.fromAdapter();
+	}
+
+	/** Apps that only use an adapter have buffers served from the adapter's web server. */
+	private async fromAdapter() {
+		const adapter = new MultipeerAdapter({ port: 0 });
+		const server = await adapter.listen();
+		const started = new Promise<Context>(resolve => {
+			adapter.onConnection(connected => connected.onStarted(() => resolve(connected)));
+		});
+		const pipe = new Pipe();
+		const client = new VirtualEngineClient(pipe.local);
+		try {
+			await Promise.all([adapter.connectClient(pipe.remote, 'hosted-buffers'), client.connect()]);
+			const context = await started;
+			const gltf = Buffer.from(JSON.stringify({ asset: { version: '2.0' }, nodes: [{ name: 'adapter' }] }));
+			const [prefab] = await new AssetContainer(context).loadGltfFromBuffer(gltf);
+			assert.ok(prefab.source.uri.startsWith(adapter.bufferHost.baseUrl), prefab.source.uri);
+			assert.ok((await fetchBuffer(prefab.source.uri)).equals(gltf));
+		} finally {
+			client.disconnect();
+			server.close();
+		}
+	}
+}
@@ -0,0 +1,102 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import AnimationEvents from './animation-events';
+import AnimationHandle from './animation-handle';
+import AnimationSampling from './animation-sampling';
+import AssetSharing from './asset-sharing';
+import AssetUnload from './asset-unload';
+import Batch from './batch';
+import CanvasTest from './canvas';
+import ChangeEvents from './change-events';
+import Clone from './clone';
+import CrossFade from './cross-fade';
+import GltfInspection from './gltf-inspection';
+import HostedBuffers from './hosted-buffers';
+import KeyframeEasing from './keyframe-easing';
+import PathAnimation from './path-animation';
+import PbrMaterial from './pbr-material';
+import PrefabAnimation from './prefab-animation';
+import Preload from './preload';
+import PropertyAnimation from './property-animation';
+import Queries from './queries';
+import Snapshot from './snapshot';
+import TexturePixels from './texture-pixels';
+import TimelineTest from './timeline';
+import UpdateLoop from './update-loop';
+import { stopWebHost } from './util';
+import VirtualClient from './virtual-client';
+import WorldTransform from './world-transform';
+
+/** @hidden */
+export interface Test {
+	name: string;
+	run(): Promise<void>;
+}
+
+/** How long a test may run before it's failed, in milliseconds. */
+const timeout = 10000;
+
+// the whole point of this file is to output the test results to the console
+// tslint:disable:no-console
+
+// currently no way to run async code from top of file. must be in a function
+// tslint:disable-next-line:no-floating-promises
+(async () => {
+
+	const tests: Test[] = [
+		new VirtualClient(),
+		new Snapshot(),
+		new Queries(),
+		new Clone(),
+		new WorldTransform(),
+		new ChangeEvents(),
+		new Batch(),
+		new UpdateLoop(),
+		new AnimationEvents(),
+		new AnimationHandle(),
+		new PropertyAnimation(),
+		new KeyframeEasing(),
+		new TimelineTest(),
+		new PathAnimation(),
+		new AnimationSampling(),
+		new PrefabAnimation(),
+		new CrossFade(),
+		new HostedBuffers(),
+		new Preload(),
+		new AssetUnload(),
+		new GltfInspection(),
+		new PbrMaterial(),
+		new TexturePixels(),
+		new CanvasTest(),
+		new AssetSharing(),
+	];
+
+	let failures = 0;
+	for (const test of tests) {
+		let time = process.hrtime();
+		let timer: NodeJS.Timer;
+		try {
+			await Promise.race([
+				test.run(),
+				new Promise((resolve, reject) => {
+					timer = setTimeout(() => reject(new Error(`Timed out after ${timeout} ms`)), timeout);
+				})
+			]);
+		} catch (ex) {
+			failures++;
+			console.log(`FAILED ${test.name}:`, ex);
+			continue;
+		} finally {
+			clearTimeout(timer);
+		}
+		time = process.hrtime(time);
+		console.log(`passed ${test.name} in ${Math.round(time[0] * 1000 + time[1] / 1000000)} ms`);
+	}
+
+	stopWebHost();
+	console.log(`\n${tests.length - failures} of ${tests.length} tests passed`);
+	process.exitCode = failures ? 1 : 0;
+})();
@@ -0,0 +1,50 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AnimationEaseCurves, AnimationInterpolation, AnimationKeyframe, BezierCurve } from '..';
+import { Test } from './index';
+import { loggedErrors, withContext } from './util';
+
+/** @hidden */
+export default class KeyframeEasing implements Test {
+	public name = 'Keyframe easing';
+
+	public async run() {
+		await withContext(async context => {
+			const actor = Actor.CreateEmpty(context);
+			const sampleX = (keyframes: AnimationKeyframe[], time: number) =>
+				actor.createAnimation('eased', { keyframes }).sample(time).transform.local.position.x;
+			const at = (time: number, x: number, options?: Partial<AnimationKeyframe>): AnimationKeyframe =>
+				({ time, value: { transform: { local: { position: { x } } } }, ...options });
+
+			// Linear by default.
+			assert.strictEqual(sampleX([at(0, 0), at(1, 1)], 0.25), 0.25);
+
+			// Step keyframes hold their value until the next.
+			const step = { interpolation: AnimationInterpolation.Step };
+			assert.strictEqual(sampleX([at(0, 0, step), at(1, 1)], 0.99), 0);
+			assert.strictEqual(sampleX([at(0, 0, step), at(1, 1)], 1), 1);
+
+			// Easing curves are evaluated as clients do.
+			const [x1, y1, x2, y2] = AnimationEaseCurves.EaseInQuadratic;
+			const eased = sampleX([at(0, 0, { easing: AnimationEaseCurves.EaseInQuadratic }), at(1, 1)], 0.5);
+			assert.strictEqual(eased, BezierCurve.Interpolate(0.5, x1, y1, x2, y2));
+			assert.ok(eased < 0.5);
+
+			// Cubic keyframes curve smoothly through their neighbors.
+			const cubic = { interpolation: AnimationInterpolation.Cubic };
+			const smooth = sampleX([at(0, 0, cubic), at(1, 1, cubic), at(2, 0)], 0.5);
+			assert.ok(Math.abs(smooth - 0.5625) < 1e-9, `sampled ${smooth}`);
+
+			// Invalid modes and curves are rejected.
+			const invalid = (keyframes: AnimationKeyframe[]) =>
+				loggedErrors(() => assert.strictEqual(actor.createAnimation('invalid', { keyframes }), undefined))[0];
+			assert.ok(/Invalid interpolation "smooth"/.test(
+				invalid([at(0, 0, { interpolation: 'smooth' as AnimationInterpolation })])));
+			assert.ok(/Invalid easing/.test(invalid([at(0, 0, { easing: [2, 0, 1, 1] })])));
+		});
+	}
+}
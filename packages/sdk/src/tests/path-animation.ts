@@ -0,0 +1,58 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AnimationWrapMode, Curve3, PathOrientation, Quaternion, Vector3 } from '..';
+import { Test } from './index';
+import { assertNear, withContext } from './util';
+
+/** @hidden */
+export default class PathAnimation implements Test {
+	public name = 'Path animations';
+
+	public async run() {
+		await withContext(async context => {
+			const actor = Actor.CreateEmpty(context);
+			const points = [new Vector3(0, 0, 0), new Vector3(1, 0, 0), new Vector3(3, 0, 0)];
+
+			// Actors move at a constant speed, however far apart the points are.
+			const bySpeed = actor.createPathAnimation('speed', points, { speed: 1 });
+			assert.strictEqual(bySpeed.length, 3);
+			assertNear(bySpeed.sample(2).transform.local.position, { x: 2, y: 0, z: 0 });
+			const byDuration = actor.createPathAnimation('duration', points, { duration: 6 });
+			assert.strictEqual(byDuration.length, 6);
+			assertNear(byDuration.sample(3).transform.local.position, { x: 1.5, y: 0, z: 0 });
+
+			// Actors can face the direction of travel.
+			const facing = actor.createPathAnimation('facing', points, {
+				speed: 1, orientation: PathOrientation.Tangent
+			});
+			const rotation = facing.sample(1).transform.local.rotation;
+			const forward = Vector3.Zero();
+			Vector3.Forward().rotateByQuaternionToRef(
+				new Quaternion(rotation.x, rotation.y, rotation.z, rotation.w), forward);
+			assertNear(forward, { x: 1, y: 0, z: 0 });
+			assert.strictEqual(bySpeed.sample(1).transform.local.rotation, undefined);
+
+			// Closed curves can loop, without a jump in rotation where they meet.
+			const loop = Curve3.CreateCatmullRomSpline(
+				[new Vector3(0, 0, 0), new Vector3(1, 0, 1), new Vector3(2, 0, 0), new Vector3(1, 0, -1)], 8, true);
+			const looping = actor.createPathAnimation('loop', loop, {
+				duration: 4, orientation: PathOrientation.Tangent, wrapMode: AnimationWrapMode.Loop
+			});
+			assert.deepStrictEqual(looping.sample(0).transform.local.rotation, looping.sample(4).transform.local.rotation);
+			const start = looping.sample(0).transform.local.position;
+			assertNear(looping.sample(4).transform.local.position, { x: start.x, y: start.y, z: start.z });
+
+			// Paths that can't be followed are rejected.
+			assert.throws(() => actor.createPathAnimation('open', points, {
+				speed: 1, wrapMode: AnimationWrapMode.Loop
+			}), /Only closed paths can loop/);
+			assert.throws(() => actor.createPathAnimation('still', [points[0], points[0]], { speed: 1 }),
+				/at least two distinct points/);
+			assert.throws(() => actor.createPathAnimation('timeless', points, {}), /positive duration or speed/);
+		});
+	}
+}
@@ -0,0 +1,97 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer, AssetLike } from '..';
+import { ZeroGuid } from '../constants';
+import { Message } from '../types/network/message';
+import { AssetUpdate } from '../types/network/payloads';
+import { Test } from './index';
+import { flushed, loggedErrors, withContext } from './util';
+
+/** @hidden */
+export default class PbrMaterial implements Test {
+	public name = 'PBR materials';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			const container = new AssetContainer(context);
+			const normal = container.createTexture('normal', { uri: 'normal.png' });
+			const occlusion = container.createTexture('occlusion', { uri: 'occlusion.png' });
+			const material = container.createMaterial('metal', {
+				emissiveColor: { r: 1, g: 0, b: 0 },
+				metallic: 1,
+				roughness: 0.2,
+				normalTextureId: normal.id,
+				normalScale: 0.5,
+				doubleSided: true
+			});
+			await Promise.all([normal.created, occlusion.created, material.created]);
+
+			// New materials are created with their PBR properties, and the defaults for the rest.
+			const created = client.scene.asset(material.id).material;
+			assert.deepStrictEqual(created.emissiveColor, { r: 1, g: 0, b: 0 });
+			assert.strictEqual(created.metallic, 1);
+			assert.strictEqual(created.roughness, 0.2);
+			assert.strictEqual(created.normalTextureId, normal.id);
+			assert.strictEqual(created.normalScale, 0.5);
+			assert.strictEqual(created.occlusionStrength, 1);
+			assert.strictEqual(created.doubleSided, true);
+			assert.strictEqual(created.unlit, false);
+			assert.strictEqual(material.normalTexture, normal);
+			assert.deepStrictEqual(material.textures, [normal]);
+
+			// Changes are sent as asset updates of just the changed properties.
+			const updates: Array<Partial<AssetLike>> = [];
+			client.on('message', (message: Message) => {
+				if (message.payload.type === 'asset-update') {
+					updates.push((message.payload as AssetUpdate).asset);
+				}
+			});
+			material.emissiveColor.g = 0.5;
+			material.roughness = 0.8;
+			material.occlusionTexture = occlusion;
+			material.unlit = true;
+			await flushed(context);
+			assert.strictEqual(updates.length, 1);
+			assert.deepStrictEqual(updates[0].material, {
+				emissiveColor: { g: 0.5 },
+				roughness: 0.8,
+				occlusionTextureId: occlusion.id,
+				unlit: true
+			});
+			const updated = client.scene.asset(material.id).material;
+			assert.deepStrictEqual(updated.emissiveColor, { r: 1, g: 0.5, b: 0 });
+			assert.strictEqual(updated.occlusionTextureId, occlusion.id);
+			assert.deepStrictEqual(material.textures, [normal, occlusion]);
+
+			// Unloading a texture removes it from every slot that uses it.
+			normal.unload();
+			assert.strictEqual(material.normalTextureId, ZeroGuid);
+			assert.strictEqual(material.normalTexture, null);
+			await flushed(context);
+			assert.strictEqual(client.scene.asset(material.id).material.normalTextureId, ZeroGuid);
+
+			// The numeric and color properties can be animated.
+			const actor = Actor.CreateEmpty(context, { actor: { appearance: { materialId: material.id } } });
+			const animation = actor.createAnimation('glow', {
+				keyframes: [{
+					time: 0,
+					value: { material: { emissiveColor: { r: 0, g: 0, b: 0 }, metallic: 0, occlusionStrength: 1 } }
+				}, {
+					time: 2,
+					value: { material: { emissiveColor: { r: 1, g: 0.5, b: 0 }, metallic: 1, occlusionStrength: 0 } }
+				}]
+			});
+			assert.deepStrictEqual(animation.sample(1).material, {
+				emissiveColor: { r: 0.5, g: 0.25, b: 0 }, metallic: 0.5, occlusionStrength: 0.5
+			});
+			const errors = loggedErrors(() => assert.strictEqual(actor.createAnimation('invalid', {
+				keyframes: [{ time: 0, value: { material: { unlit: true } as any } }]
+			}), undefined));
+			assert.ok(/unlit/.test(errors[0]), errors[0]);
+		});
+	}
+}
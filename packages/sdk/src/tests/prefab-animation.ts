@@ -0,0 +1,55 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AnimationWrapMode, AssetContainer } from '..';
+import { Test } from './index';
+import { flushed, withContext } from './util';
+
+/** @hidden */
+export default class PrefabAnimation implements Test {
+	public name = 'Prefab animation clips';
+
+	public async run() {
+		// Clips are read from glTF files app-side.
+		const gltf = Buffer.from(JSON.stringify({
+			asset: { version: '2.0' },
+			scenes: [{ nodes: [0] }],
+			nodes: [{ name: 'body', children: [1] }, { name: 'legs' }],
+			accessors: [{ componentType: 5126, count: 2, type: 'SCALAR', min: [0], max: [1.5] }],
+			animations: [{
+				name: 'Walk',
+				samplers: [{ input: 0, output: 0 }],
+				channels: [{ sampler: 0, target: { node: 1, path: 'rotation' } }]
+			}]
+		}));
+		const clips = [{ name: 'Walk', duration: 1.5, targetNames: ['legs'] }];
+		await withContext(async context => {
+			const info = await new AssetContainer(context).inspectGltf(gltf);
+			assert.deepStrictEqual(info.animations, clips);
+		});
+
+		// And reported by clients on the prefabs they load.
+		await withContext(async (context, client) => {
+			const container = new AssetContainer(context);
+			const [prefab] = await container.loadGltf('http://example.com/walker.glb');
+			assert.deepStrictEqual(prefab.prefab.animations, clips);
+
+			// Actors spawned from the prefab have handles to its clips.
+			const actor = Actor.CreateFromPrefab(context, { prefabId: prefab.id });
+			const walk = actor.animation('Walk');
+			assert.strictEqual(walk.length, 1.5);
+			assert.strictEqual(walk.enabled, false);
+			await actor.created();
+			walk.setState({ wrapMode: AnimationWrapMode.Loop, weight: 0.5 });
+			walk.play();
+			await flushed(context);
+			assert.deepStrictEqual(client.scene.animation(actor.id, 'Walk').state,
+				{ time: 0, speed: 1, enabled: true, wrapMode: AnimationWrapMode.Loop, weight: 0.5 });
+		}, {
+			resolveGltf: async () => [{ prefab: { actorCount: 2, animations: clips } }]
+		});
+	}
+}
@@ -0,0 +1,73 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { AssetContainer, PreloadProgress } from '..';
+import { Test } from './index';
+import { delay, startWebHost, withContext } from './util';
+
+/** @hidden */
+export default class Preload implements Test {
+	public name = 'Asset preloading';
+
+	public async run() {
+		const webHost = await startWebHost();
+		const gltf = Buffer.from(JSON.stringify({ asset: { version: '2.0' }, nodes: [{ name: 'preloaded' }] }));
+		const missing = `${webHost.baseUrl}/missing.gltf`;
+		const resolveGltf = (uri: string) => {
+			if (uri === missing) {
+				throw new Error('not found');
+			}
+			return [{ prefab: { actorCount: 1 } }];
+		};
+
+		await withContext(async context => {
+			// Every entry is loaded, with progress reported as each one finishes.
+			const container = new AssetContainer(context);
+			const progress: PreloadProgress[] = [];
+			const assets = await container.preload({
+				model: { type: 'gltf', buffer: gltf },
+				skin: { type: 'texture', definition: { uri: 'skin.png' } },
+				theme: { type: 'sound', definition: { uri: 'theme.ogg' } }
+			}, { onProgress: report => progress.push(report) });
+			assert.ok(assets.model[0].prefab);
+			assert.strictEqual(assets.skin.name, 'skin');
+			assert.strictEqual(assets.skin.texture.uri, 'skin.png');
+			assert.strictEqual(assets.theme.sound.uri, 'theme.ogg');
+			assert.deepStrictEqual(progress.map(report => report.name).sort(), ['model', 'skin', 'theme']);
+			assert.deepStrictEqual(progress.map(report => report.loaded), [1, 2, 3]);
+			const last = progress[progress.length - 1];
+			assert.strictEqual(last.total, 3);
+			assert.strictEqual(last.failed, 0);
+			assert.strictEqual(last.bytesTotal, gltf.length);
+			assert.strictEqual(last.bytesLoaded, gltf.length);
+
+			// A failed entry rejects the whole preload by default, and entries still loading stop reporting progress.
+			const reported: string[] = [];
+			await assert.rejects(container.preload({
+				broken: { type: 'gltf', uri: missing },
+				slow: { type: 'texture', definition: { uri: 'slow.png' } }
+			}, { onProgress: report => reported.push(report.name) }), /Failed to preload broken/);
+			await delay(50);
+			assert.deepStrictEqual(reported, ['broken']);
+
+			// Or is reported and left out of the result, with the remaining entries still loaded.
+			const failures: PreloadProgress[] = [];
+			const partial = await container.preload({
+				broken: { type: 'gltf', uri: missing },
+				skin: { type: 'texture', definition: { uri: 'other.png' } }
+			}, {
+				continueOnFailure: true,
+				onProgress: report => report.error && failures.push(report)
+			});
+			assert.strictEqual(partial.broken, undefined);
+			assert.strictEqual(partial.skin.texture.uri, 'other.png');
+			assert.strictEqual(failures.length, 1);
+			assert.strictEqual(failures[0].name, 'broken');
+			assert.strictEqual(failures[0].failed, 1);
+			assert.ok(/not found/.test(failures[0].error.message), failures[0].error.message);
+		}, { resolveGltf });
+	}
+}
@@ -0,0 +1,80 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer } from '..';
+import { Test } from './index';
+import { flushed, loggedErrors, withContext } from './util';
+
+/** @hidden */
+export default class PropertyAnimation implements Test {
+	public name = 'Property animations';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			const material = new AssetContainer(context).createMaterial('mat', {});
+			const actor = Actor.CreateEmpty(context, {
+				actor: {
+					light: { enabled: true, intensity: 0 },
+					text: { contents: 'text', height: 1 },
+					appearance: { materialId: material.id }
+				}
+			});
+
+			// Lights, text, materials and media are interpolated by the type of each property.
+			const animation = actor.createAnimation('fade', {
+				keyframes: [{
+					time: 0,
+					value: {
+						light: { intensity: 0, color: { r: 0, g: 0, b: 0 } },
+						text: { height: 1 },
+						material: { color: { r: 1, g: 1, b: 1, a: 0 }, mainTextureOffset: { x: 0, y: 0 } },
+						media: { volume: 1 }
+					}
+				}, {
+					time: 2,
+					value: {
+						light: { intensity: 4, color: { r: 1, g: 0.5, b: 0 } },
+						text: { height: 3 },
+						material: { color: { r: 1, g: 1, b: 1, a: 1 }, mainTextureOffset: { x: 1, y: -1 } },
+						media: { volume: 0 }
+					}
+				}]
+			});
+			const value = animation.sample(1);
+			assert.deepStrictEqual(value.light, { intensity: 2, color: { r: 0.5, g: 0.25, b: 0 } });
+			assert.deepStrictEqual(value.text, { height: 2 });
+			assert.deepStrictEqual(value.material, {
+				color: { r: 1, g: 1, b: 1, a: 0.5 }, mainTextureOffset: { x: 0.5, y: -0.5 }
+			});
+			assert.deepStrictEqual(value.media, { volume: 0.5 });
+			await flushed(context);
+			assert.strictEqual(client.scene.animation(actor.id, 'fade').options.keyframes[1].value.light.intensity, 4);
+
+			// Invalid keyframes are rejected in the app, whatever the client, and reported as errors.
+			const invalid = (keyframes: any[], error: RegExp, target = actor) => {
+				const errors = loggedErrors(() =>
+					assert.strictEqual(target.createAnimation('invalid', { keyframes }), undefined));
+				assert.strictEqual(errors.length, 1);
+				assert.ok(error.test(errors[0]), errors[0]);
+				assert.strictEqual(target.animation('invalid'), undefined);
+			};
+			invalid([], /at least one keyframe/);
+			invalid([{ time: 1, value: {} }, { time: 0, value: {} }], /Invalid keyframe time 0/);
+			invalid([{ time: 0, value: { appearance: { enabled: false } } }], /Cannot animate "appearance"/);
+			invalid([{ time: 0, value: { light: { intensity: 'bright' } } }], /"light.intensity".*Expected a number/);
+			invalid([{ time: 0, value: { text: { color: { r: 1, alpha: 1 } } } }], /"text.color".*Expected a color3/);
+			invalid([{ time: 0, value: { material: { metallic: 1 } } }], /require the actor to have a material/,
+				Actor.CreateEmpty(context));
+			await flushed(context);
+			assert.strictEqual(client.scene.animation(actor.id, 'invalid'), undefined);
+
+			// Transform keyframes in app space still throw.
+			assert.throws(() => actor.createAnimation('app', {
+				keyframes: [{ time: 0, value: { transform: { app: { position: { x: 1 } } } as any } }]
+			}), /local space/);
+		});
+	}
+}
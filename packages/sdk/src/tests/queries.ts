@@ -0,0 +1,45 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor } from '..';
+import { Test } from './index';
+import { withContext } from './util';
+
+/** @hidden */
+export default class Queries implements Test {
+	public name = 'Actor queries';
+
+	public async run() {
+		await withContext(async context => {
+			const door = Actor.CreateEmpty(context, { actor: { name: 'door' } });
+			const handle = Actor.CreateEmpty(context, { actor: { name: 'knob', tag: 'handle', parentId: door.id } });
+			const frame = Actor.CreateEmpty(context, { actor: { name: 'frame', parentId: door.id } });
+			const hinge = Actor.CreateEmpty(context, { actor: { name: 'hinge', tag: 'handle', parentId: frame.id } });
+			const lamp = Actor.CreateEmpty(context, { actor: { name: 'front lamp', light: { enabled: true } } });
+			const names = (actors: Actor[]) => actors.map(actor => actor.name).sort();
+
+			assert.strictEqual(context.query('#door'), door);
+			assert.deepStrictEqual(names(context.queryAll('.handle')), ['hinge', 'knob']);
+			assert.deepStrictEqual(names(context.queryAll('#door .handle')), ['hinge', 'knob']);
+			assert.deepStrictEqual(names(context.queryAll('#door > .handle')), ['knob']);
+			assert.deepStrictEqual(names(context.queryAll('#frame, [light]')), ['frame', 'front lamp']);
+			assert.strictEqual(context.query('[name="front lamp"]'), lamp);
+			assert.strictEqual(context.queryAll('*').length, 5);
+			assert.deepStrictEqual(names(frame.queryAll('*')), ['hinge']);
+			assert.strictEqual(context.query('#nothing'), undefined);
+			assert.throws(() => context.queryAll('#door >'), /Invalid selector/);
+
+			// The index follows re-tagging, re-parenting and destruction.
+			hinge.tag = 'pin';
+			handle.parentId = lamp.id;
+			assert.deepStrictEqual(names(context.queryAll('#door .handle')), []);
+			assert.deepStrictEqual(names(context.queryAll('[light] > .handle')), ['knob']);
+			assert.strictEqual(context.query('#frame > .pin'), hinge);
+			lamp.destroy();
+			assert.deepStrictEqual(names(context.queryAll('.handle')), []);
+		});
+	}
+}
@@ -0,0 +1,67 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer, Color3, ContextSnapshot, Material } from '..';
+import fetchBuffer from '../utils/fetchBuffer';
+import { Test } from './index';
+import { flushed, startWebHost, withContext } from './util';
+
+/** @hidden */
+export default class Snapshot implements Test {
+	public name = 'Context snapshots';
+
+	public async run() {
+		await startWebHost();
+		const gltf = Buffer.from(JSON.stringify({ asset: { version: '2.0' }, nodes: [{ name: 'root' }] }));
+		const pixels = { width: 1, height: 1, rgba: new Uint8Array([255, 0, 0, 255]) };
+
+		let snapshot: ContextSnapshot;
+		let hostedUris: string[];
+		await withContext(async context => {
+			const container = new AssetContainer(context);
+			const texture = container.createTextureFromPixels('pixels', pixels);
+			const material = container.createMaterial('red', { color: Color3.Red(), mainTextureId: texture.id });
+			const [prefab] = await container.loadGltfFromBuffer(gltf);
+			const root = Actor.CreateEmpty(context, {
+				actor: { name: 'root', appearance: { materialId: material.id }, transform: { local: { position: { x: 1 } } } }
+			});
+			Actor.CreateEmpty(context, { actor: { name: 'child', parentId: root.id } });
+			Actor.CreateFromPrefab(context, { prefabId: prefab.id, actor: { name: 'model' } });
+			root.createAnimation('slide', {
+				keyframes: [{ time: 0, value: { transform: { local: { position: { x: 0 } } } } },
+					{ time: 1, value: { transform: { local: { position: { x: 1 } } } } }]
+			});
+			context.internal.userGroupMapping.red = 2;
+			await flushed(context);
+
+			// Snapshots survive serialization, and the unloading of what they were taken from.
+			snapshot = JSON.parse(JSON.stringify(context.saveSnapshot()));
+			hostedUris = [texture.uri, prefab.source.uri];
+			container.unload();
+			await flushed(context);
+		});
+		for (const uri of hostedUris) {
+			await assert.rejects(fetchBuffer(uri), /HTTP 404/);
+		}
+
+		await withContext(async (context, client) => {
+			const [container] = await context.restoreSnapshot(snapshot);
+			await flushed(context);
+			assert.deepStrictEqual(client.scene.actors.map(actor => actor.name).sort(), ['child', 'model', 'root']);
+			const root = context.actors.find(actor => actor.name === 'root');
+			assert.strictEqual(root.transform.local.position.x, 1);
+			assert.ok(client.scene.animation(root.id, 'slide'));
+			assert.strictEqual(context.internal.userGroupMapping.red, 2);
+
+			// Files that were served from memory are served again.
+			const [texture] = container.textures;
+			const material = context.internal.lookupAsset(root.appearance.materialId) as Material;
+			assert.strictEqual(material.mainTextureId, texture.id);
+			assert.strictEqual((await fetchBuffer(texture.uri)).toString('ascii', 1, 4), 'PNG');
+			assert.deepStrictEqual(await fetchBuffer(container.prefabs[0].source.uri), gltf);
+		});
+	}
+}
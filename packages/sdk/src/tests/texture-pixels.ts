@@ -0,0 +1,64 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { AssetContainer, AssetLike } from '..';
+import { Message } from '../types/network/message';
+import { AssetUpdate } from '../types/network/payloads';
+import fetchBuffer from '../utils/fetchBuffer';
+import { Test } from './index';
+import { flushed, startWebHost, withContext } from './util';
+
+/** The first eight bytes of a PNG file. */
+const pngSignature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** @hidden */
+export default class TexturePixels implements Test {
+	public name = 'Textures from pixels';
+
+	public async run() {
+		await startWebHost();
+		await withContext(async (context, client) => {
+			// Pixels are served as a PNG file, and the resolution is known before any client replies.
+			const container = new AssetContainer(context);
+			const texture = container.createTextureFromPixels('score', {
+				width: 2, height: 1, rgba: new Uint8Array([255, 0, 0, 255, 0, 0, 255, 128])
+			});
+			assert.deepStrictEqual(texture.resolution.toJSON(), { x: 2, y: 1 });
+			const uri = texture.uri;
+			assert.ok(/\/[0-9a-f]{64}\.png$/.test(uri), uri);
+			const png = await fetchBuffer(uri);
+			assert.ok(png.slice(0, 8).equals(pngSignature));
+			assert.strictEqual(png.readUInt32BE(16), 2, "width");
+			assert.strictEqual(png.readUInt32BE(20), 1, "height");
+			await texture.created;
+			assert.strictEqual(client.scene.asset(texture.id).texture.uri, uri);
+
+			// Replacing the pixels serves them under a new URL, which clients are told to reload from.
+			const updates: Array<Partial<AssetLike>> = [];
+			client.on('message', (message: Message) => {
+				if (message.payload.type === 'asset-update') {
+					updates.push((message.payload as AssetUpdate).asset);
+				}
+			});
+			texture.setPixels({ width: 1, height: 1, rgba: new Uint8Array([0, 255, 0, 255]) });
+			assert.notStrictEqual(texture.uri, uri);
+			assert.deepStrictEqual(texture.resolution.toJSON(), { x: 1, y: 1 });
+			await flushed(context);
+			assert.deepStrictEqual(updates.map(update => update.texture), [
+				{ uri: texture.uri, resolution: { x: 1, y: 1 } }
+			]);
+			assert.strictEqual(client.scene.asset(texture.id).texture.uri, texture.uri);
+
+			// The old URL stops being served, and the new one once the texture is unloaded.
+			await assert.rejects(fetchBuffer(uri), /HTTP 404/);
+			const updated = texture.uri;
+			assert.ok((await fetchBuffer(updated)).slice(0, 8).equals(pngSignature));
+			texture.unload();
+			await flushed(context);
+			await assert.rejects(fetchBuffer(updated), /HTTP 404/);
+		});
+	}
+}
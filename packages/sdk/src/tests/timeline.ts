@@ -0,0 +1,94 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AnimationEaseCurves, Timeline } from '..';
+import { Test } from './index';
+import { delay, withContext } from './util';
+
+/** @hidden */
+export default class TimelineTest implements Test {
+	public name = 'Tweens and timelines';
+
+	public async run() {
+		// Nothing should go unhandled, whatever happens to the actors being animated.
+		const unhandled: any[] = [];
+		const record = (reason: any) => unhandled.push(reason);
+		process.on('unhandledRejection', record);
+		process.on('uncaughtException', record);
+		try {
+			await this.tweens();
+			await this.timelines();
+			await delay(10);
+			assert.deepStrictEqual(unhandled, []);
+		} finally {
+			process.removeListener('unhandledRejection', record);
+			process.removeListener('uncaughtException', record);
+		}
+	}
+
+	private async tweens() {
+		await withContext(async (context, client) => {
+			const actor = Actor.CreateEmpty(context);
+			await actor.created();
+
+			// Tweens resolve once clients finish them.
+			await actor.animateTo({ transform: { local: { position: { x: 2 } } } }, 0.05, AnimationEaseCurves.Linear);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.x, 2);
+			assert.strictEqual(actor.transform.local.position.x, 2);
+
+			// And when their actor is destroyed, or they can't run.
+			const destroyed = actor.animateTo({ transform: { local: { position: { x: 4 } } } }, 10, [0, 0, 1, 1]);
+			actor.destroy();
+			await destroyed;
+			await actor.animateTo({ transform: { local: { position: { x: 4 } } } }, 1, [0, 0, 1, 1]);
+			await Actor.CreateEmpty(context).animateTo({}, 1, [0, 0]);
+		});
+	}
+
+	private async timelines() {
+		await withContext(async context => {
+			const a = Actor.CreateEmpty(context);
+			const b = Actor.CreateEmpty(context);
+			await Promise.all([a.created(), b.created()]);
+
+			// Steps run in sequence or side by side, and callbacks that throw don't stop the timeline.
+			const calls: string[] = [];
+			const timeline = new Timeline()
+				.tween(a, { transform: { local: { position: { x: 1 } } } }, 0.05)
+				.call(() => calls.push('first'))
+				.parallel(steps => steps
+					.tween(a, { transform: { local: { position: { y: 1 } } } }, 0.05)
+					.sequence(sequence => sequence
+						.wait(0.02)
+						.tween(b, { transform: { local: { position: { z: 1 } } } }, 0.05)))
+				.call(() => {
+					throw new Error('callback failed');
+				})
+				.call(() => calls.push('last'));
+			assert.ok(Math.abs(timeline.duration - 0.12) < 1e-9);
+			await timeline.play();
+			assert.deepStrictEqual(calls, ['first', 'last']);
+			assert.strictEqual(timeline.isPlaying, false);
+			assert.strictEqual(a.transform.local.position.y, 1);
+			assert.strictEqual(b.transform.local.position.z, 1);
+
+			// Seeking puts actors where the timeline has them by then.
+			timeline.seek(0.025);
+			assert.ok(Math.abs(a.transform.local.position.x - 0.5) < 1e-9);
+			assert.strictEqual(a.transform.local.position.y, 0);
+			timeline.seek(0.1);
+			assert.strictEqual(a.transform.local.position.x, 1);
+			assert.ok(Math.abs(b.transform.local.position.z - 0.6) < 1e-9);
+
+			// Cancelling resolves the play promise.
+			const waiting = new Timeline().wait(10);
+			const played = waiting.play();
+			waiting.cancel();
+			await played;
+			assert.strictEqual(waiting.isPlaying, false);
+		});
+	}
+}
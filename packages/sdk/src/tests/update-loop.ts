@@ -0,0 +1,78 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, Context, Pipe } from '..';
+import { VirtualEngineClient } from '../testing';
+import { Message } from '../types/network/message';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class UpdateLoop implements Test {
+	public name = 'Update scheduling';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			const actor = Actor.CreateEmpty(context, { actor: { name: 'scheduled' } });
+			await actor.created();
+			await flushed(context);
+
+			// Idle contexts don't run updates.
+			const internal = context.internal;
+			let updates = 0;
+			const update = internal.update;
+			internal.update = () => {
+				updates++;
+				update.call(internal);
+			};
+			await delay(50);
+			assert.strictEqual(updates, 0);
+
+			// Changes made in the same tick are sent together.
+			const types = this.record(client);
+			actor.transform.local.position.x = 1;
+			actor.transform.local.position.y = 2;
+			await delay(10);
+			assert.strictEqual(updates, 1);
+			assert.deepStrictEqual(types, ['actor-update']);
+		});
+
+		await this.rateLimited();
+	}
+
+	/** Contexts with a maximum update rate combine changes made in between updates. */
+	private async rateLimited() {
+		const pipe = new Pipe();
+		const context = new Context({ connection: pipe.remote, maxUpdateRate: 10 });
+		context.internal.startListening().catch(() => pipe.remote.close());
+		const client = new VirtualEngineClient(pipe.local);
+		try {
+			await client.connect();
+			context.internal.start();
+			const actor = Actor.CreateEmpty(context, { actor: { name: 'limited' } });
+			await actor.created();
+			await flushed(context);
+
+			const types = this.record(client);
+			for (let i = 1; i <= 25; i++) {
+				actor.transform.local.position.x = i;
+				await delay(10);
+			}
+			await delay(150);
+			assert.ok(types.length >= 2 && types.length <= 4, `${types.length} updates sent`);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.x, 25);
+		} finally {
+			client.disconnect();
+		}
+	}
+
+	/** Record the types of the messages a client receives. */
+	private record(client: VirtualEngineClient) {
+		const types: string[] = [];
+		client.on('message', (message: Message) => types.push(message.payload.type));
+		return types;
+	}
+}
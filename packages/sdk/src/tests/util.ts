@@ -0,0 +1,95 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Context, Vector3Like, WebHost } from '..';
+import { log } from '../log';
+import { VirtualEngineClient, VirtualEngineClientOptions } from '../testing';
+
+/**
+ * @hidden
+ * Resolve after the given number of milliseconds.
+ */
+export function delay(milliseconds: number) {
+	return new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+}
+
+/**
+ * @hidden
+ * Resolve once the context has sent its pending changes to clients, and the clients have had time to apply them.
+ */
+export async function flushed(context: Context) {
+	await context.internal.nextUpdate();
+	await delay(0);
+}
+
+/**
+ * @hidden
+ * Connect a virtual engine client to a new context, run a test against them, and disconnect once it's done. The
+ * context hosts buffers with the shared web host, if one was started.
+ */
+export async function withContext(
+	run: (context: Context, client: VirtualEngineClient) => Promise<void>,
+	options?: VirtualEngineClientOptions
+) {
+	const { context, client } = await VirtualEngineClient.CreateContext(
+		undefined, options, { bufferHost: webHost && webHost.bufferHost });
+	try {
+		await run(context, client);
+	} finally {
+		client.disconnect();
+	}
+}
+
+/**
+ * @hidden
+ * Run a function, and return the errors it logged.
+ */
+export function loggedErrors(run: () => void) {
+	const errors: string[] = [];
+	const logError = log.error;
+	log.error = (facility: string, formatter: any) => errors.push(String(formatter));
+	try {
+		run();
+	} finally {
+		log.error = logError;
+	}
+	return errors;
+}
+
+let webHost: WebHost;
+
+/**
+ * @hidden
+ * Start a web host to serve buffers from, shared by all tests. It listens on any free port.
+ */
+export async function startWebHost() {
+	webHost = webHost || new WebHost({ port: 0 });
+	while (!webHost.baseUrl) {
+		await delay(10);
+	}
+	return webHost;
+}
+
+/**
+ * @hidden
+ * Stop the shared web host, if one was started.
+ */
+export function stopWebHost() {
+	if (webHost) {
+		webHost.adapter.server.close();
+		webHost = undefined;
+	}
+}
+
+/**
+ * @hidden
+ * Assert that two vectors are equal, give or take rounding errors.
+ */
+export function assertNear(actual: Partial<Vector3Like>, expected: Vector3Like, message?: string) {
+	const distance = Math.hypot(actual.x - expected.x, actual.y - expected.y, actual.z - expected.z);
+	assert.ok(distance < 1e-5, message ||
+		`expected (${actual.x}, ${actual.y}, ${actual.z}) to be near (${expected.x}, ${expected.y}, ${expected.z})`);
+}
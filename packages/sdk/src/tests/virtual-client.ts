@@ -0,0 +1,92 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, AssetContainer, ButtonBehavior, Context, MultipeerAdapter, Pipe, User } from '..';
+import { VirtualEngineClient } from '../testing';
+import { Test } from './index';
+import { delay, flushed, withContext } from './util';
+
+/** @hidden */
+export default class VirtualClient implements Test {
+	public name = 'Virtual engine client';
+
+	public async run() {
+		await withContext(async (context, client) => {
+			assert.strictEqual(client.sessionId, context.sessionId);
+
+			// Creations are answered and mirrored in the scene.
+			const container = new AssetContainer(context);
+			const mesh = container.createBoxMesh('box', 1, 2, 3);
+			const actor = Actor.CreateEmpty(context, {
+				actor: { name: 'root', appearance: { meshId: mesh.id } }
+			});
+			await Promise.all([actor.created(), mesh.created]);
+			assert.strictEqual(client.scene.findActorsByName('root')[0].id, actor.id);
+			assert.strictEqual(mesh.mesh.triangleCount, 12);
+			assert.deepStrictEqual(client.scene.asset(mesh.id).mesh.boundingBoxDimensions, { x: 1, y: 2, z: 3 });
+
+			// Updates reach the client.
+			actor.transform.local.position.x = 5;
+			actor.transform.local.scale.z = 3;
+			await flushed(context);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.position.x, 5);
+			assert.strictEqual(client.scene.actor(actor.id).transform.local.scale.z, 3);
+
+			// Prefabs spawn their nodes.
+			const [prefab] = await container.loadGltf('http://example.com/model.glb');
+			const spawned = Actor.CreateFromPrefab(context, { prefabId: prefab.id });
+			await spawned.created();
+			assert.strictEqual(client.scene.actor(spawned.id).parentId, undefined);
+
+			// Users join and perform actions.
+			const joined = new Promise<User>(resolve => context.onUserJoined(resolve));
+			const userId = client.joinUser({ name: 'Tester' });
+			assert.strictEqual((await joined).name, 'Tester');
+			const clicked = new Promise<User>(resolve => actor.setBehavior(ButtonBehavior).onClick(resolve));
+			await flushed(context);
+			client.performAction({ userId, targetId: actor.id, actionName: 'click', actionState: 'started' });
+			assert.strictEqual((await clicked).id, userId);
+		});
+
+		await this.lateJoin();
+	}
+
+	/** Clients joining a multi-peer session late are synchronized with what the app already created. */
+	private async lateJoin() {
+		const adapter = new MultipeerAdapter();
+		const started = new Promise<Context>(resolve => {
+			adapter.onConnection(connected => connected.onStarted(() => resolve(connected)));
+		});
+		const first = await this.join(adapter);
+		const context = await started;
+
+		const root = Actor.CreateEmpty(context, { actor: { name: 'root' } });
+		Actor.CreateEmpty(context, { actor: { name: 'child', parentId: root.id } });
+		root.transform.local.position.y = 2;
+		await flushed(context);
+
+		const late = await this.join(adapter);
+		try {
+			await delay(50);
+			assert.deepStrictEqual(late.scene.actors.map(actor => actor.name).sort(), ['child', 'root']);
+			assert.strictEqual(late.scene.children(root.id)[0].name, 'child');
+			assert.strictEqual(late.scene.actor(root.id).transform.local.position.y, 2);
+			// Only the first client reports engine state back to the app.
+			assert.strictEqual(first.authoritative, true);
+			assert.strictEqual(late.authoritative, false);
+		} finally {
+			late.disconnect();
+			first.disconnect();
+		}
+	}
+
+	private async join(adapter: MultipeerAdapter) {
+		const pipe = new Pipe();
+		const client = new VirtualEngineClient(pipe.local);
+		await Promise.all([adapter.connectClient(pipe.remote, 'late-join'), client.connect()]);
+		return client;
+	}
+}
@@ -0,0 +1,47 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import assert from 'assert';
+import { Actor, Quaternion, Vector3 } from '..';
+import { Test } from './index';
+import { assertNear, withContext } from './util';
+
+/** @hidden */
+export default class WorldTransform implements Test {
+	public name = 'App-side world transforms';
+
+	public async run() {
+		await withContext(async context => {
+			const root = Actor.CreateEmpty(context, { actor: { name: 'root' } });
+			const child = Actor.CreateEmpty(context, { actor: { name: 'child', parentId: root.id } });
+			root.transform.local.position.x = 1;
+			root.transform.local.scale.copyFromFloats(2, 2, 2);
+			child.transform.local.position.x = 1;
+
+			// World transforms are computed from the parent chain before any client reports back.
+			assertNear(child.worldTransform.position, { x: 3, y: 0, z: 0 });
+			assertNear(child.worldTransform.scale, { x: 2, y: 2, z: 2 });
+
+			// Changes to ancestors invalidate the cached transforms of their descendants.
+			root.transform.local.rotation = Quaternion.RotationAxis(Vector3.Up(), Math.PI / 2);
+			assertNear(child.worldTransform.position, root.localToWorld({ x: 1, y: 0, z: 0 }));
+			assert.strictEqual(Math.round(Vector3.Distance(child.worldTransform.position, new Vector3(1, 0, 0))), 2);
+			assertNear(root.worldToLocal(child.worldTransform.position), { x: 1, y: 0, z: 0 });
+
+			// Reparenting keeps the local transform, unless asked to keep the world pose.
+			const other = Actor.CreateEmpty(context, { actor: { name: 'other' } });
+			other.transform.local.position.y = 5;
+			const before = child.worldTransform.position;
+			child.setParent(other, { keepWorldPose: true });
+			assert.strictEqual(child.parentId, other.id);
+			assertNear(child.worldTransform.position, before);
+			assertNear(child.transform.local.position, before.subtract(new Vector3(0, 5, 0)));
+			child.parent = root;
+			assertNear(child.worldTransform.position, root.localToWorld(child.transform.local.position));
+			child.parent = null;
+			assertNear(child.worldTransform.position, child.transform.local.position);
+		});
+	}
+}
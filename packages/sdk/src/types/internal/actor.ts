@@ -7,17 +7,23 @@ import {
 	ActionEvent,
 	Actor,
 	ActorLike,
+	Animation,
 	Behavior,
 	CollisionData,
 	CollisionEventType,
+	CreateAnimationOptions,
 	DiscreteAction,
+	Matrix,
 	SetAnimationStateOptions,
 	TriggerEventType
 } from '../..';
+import { log } from '../../log';
 import { ExportedPromise } from '../../utils/exportedPromise';
 import { InternalPatchable } from '../patchable';
 import { InternalCollider } from './collider';
 
+type CrossFade = { step: () => boolean, promise: ExportedPromise };
+
 /**
  * @hidden
  */
@@ -27,14 +33,58 @@ export class InternalActor implements InternalPatchable<ActorLike> {
 	public behavior: Behavior;
 	public createdPromises: ExportedPromise[];
 	public created: { success: boolean; reason?: any };
+	public resourceId: string;
+	public engineSpawned = false;
+	public createdAnimations: {
+		[animationName: string]: { options: CreateAnimationOptions, state: SetAnimationStateOptions }
+	} = {};
+	public animations: { [animationName: string]: Animation } = {};
+	/** The animateTo calls still running, by the names of their animations. */
+	public interpolations: { [animationName: string]: ExportedPromise } = {};
+	/** The cross-fades in progress, by the names of the animations they're fading in and out. */
+	public fades: { [animationName: string]: CrossFade } = {};
+	// tslint:disable-next-line:variable-name
+	private _worldMatrix: Matrix;
+	private sampling = false;
+	/** The context's sampling tick in which the animated values were last sampled, while they're still current. */
+	private sampledTick: number;
 
 	public get collider(): InternalCollider {
 		return this.actor.collider ? this.actor.collider.internal : undefined;
 	}
 
+	/**
+	 * The matrix transforming this actor's local space into app space. Computed from the local transforms of the
+	 * actor and its ancestors, and cached until one of them changes.
+	 */
+	public get worldMatrix(): Matrix {
+		this.sampleAnimations();
+		if (!this._worldMatrix) {
+			const local = this.actor.transform.local;
+			const matrix = Matrix.Compose(local.scale, local.rotation, local.position);
+			const parent = this.actor.parent;
+			this._worldMatrix = parent ? matrix.multiply(parent.internal.worldMatrix) : matrix;
+		}
+		return this._worldMatrix;
+	}
+
 	constructor(public actor: Actor) {
 	}
 
+	/**
+	 * Discard the cached world matrices of this actor and its descendants.
+	 */
+	public invalidateWorldMatrix() {
+		// An actor's matrix is only ever computed after its parent's, so if this one is already stale then so are
+		// all of its descendants.
+		if (this._worldMatrix) {
+			this._worldMatrix = undefined;
+			for (const child of this.actor.children) {
+				child.internal.invalidateWorldMatrix();
+			}
+		}
+	}
+
 	public performAction(actionEvent: ActionEvent) {
 		const behavior = (this.behavior && this.behavior.behaviorType === actionEvent.behaviorType)
 			? this.behavior : undefined;
@@ -61,6 +111,7 @@ export class InternalActor implements InternalPatchable<ActorLike> {
 	}
 
 	public setAnimationStateEventRaised(animationName: string, state: SetAnimationStateOptions) {
+		this.updateAnimationState(animationName, state);
 		if (this.actor) {
 			if (state.enabled !== undefined) {
 				if (state.enabled) {
@@ -72,6 +123,129 @@ export class InternalActor implements InternalPatchable<ActorLike> {
 		}
 	}
 
+	public updateAnimationState(animationName: string, state: SetAnimationStateOptions) {
+		const animation = this.createdAnimations[animationName];
+		if (animation) {
+			animation.state = { ...animation.state, ...state };
+		}
+		if (this.animations[animationName]) {
+			this.animations[animationName]._setState(state);
+		}
+		const interpolation = this.interpolations[animationName];
+		if (interpolation && state.enabled === false) {
+			delete this.interpolations[animationName];
+			interpolation.resolve();
+		}
+	}
+
+	/**
+	 * Fade one animation out while fading another in, by changing their weights on each of the context's updates.
+	 */
+	public crossFade(fromName: string, toName: string, duration: number): Promise<void> {
+		const from = this.animations[fromName];
+		const to = this.animations[toName];
+		if (!from || !to) {
+			log.error('app', `Failed to cross-fade from ${fromName} to ${toName}. ` +
+				`Animation ${from ? toName : fromName} not found on actor ${this.actor.id}.`);
+			return Promise.resolve();
+		}
+		// Fading either animation again takes over from where the earlier fade left it.
+		this.stopFade(fromName);
+		this.stopFade(toName);
+		const fromWeight = from.enabled ? from.weight : 0;
+		const toWeight = to.enabled ? to.weight : 0;
+		to.setState({ enabled: true, weight: toWeight });
+
+		const start = Date.now();
+		return new Promise<void>((resolve, reject) => {
+			const step = () => {
+				const progress = duration > 0 ? Math.min((Date.now() - start) / (duration * 1000), 1) : 1;
+				if (progress < 1) {
+					from.setState({ weight: fromWeight * (1 - progress) });
+					to.setState({ weight: toWeight + (1 - toWeight) * progress });
+					return true;
+				}
+				// Restore the faded out animation's weight, so it plays normally if it's enabled again.
+				from.setState({ enabled: false, weight: 1 });
+				to.setState({ weight: 1 });
+				delete this.fades[fromName];
+				delete this.fades[toName];
+				resolve();
+				return false;
+			};
+			this.fades[fromName] = this.fades[toName] = { step, promise: { resolve, reject } };
+			this.actor.context.internal.addUpdateStep(step);
+		});
+	}
+
+	/**
+	 * Bring the actor's animated properties up to date with its animations, so reading them gives the values clients
+	 * are showing. Animations are applied in the order they were created, so later ones win. They're only sampled
+	 * once per tick, however often the actor is read.
+	 */
+	public sampleAnimations() {
+		if (this.sampling) {
+			return;
+		}
+		const animationNames = Object.keys(this.animations);
+		if (!animationNames.length) {
+			return;
+		}
+		const tick = this.actor.context.internal.currentSamplingTick();
+		if (this.sampledTick === tick) {
+			return;
+		}
+		this.sampling = true;
+		try {
+			for (const animationName of animationNames) {
+				this.animations[animationName]._apply();
+			}
+		} finally {
+			this.sampling = false;
+		}
+		this.sampledTick = tick;
+	}
+
+	/**
+	 * Sample the actor's animations again the next time it's read, because one of them has changed.
+	 */
+	public resampleAnimations() {
+		this.sampledTick = undefined;
+	}
+
+	/**
+	 * Stop tracking the actor's animations and interpolations, e.g. because the actor has been destroyed.
+	 */
+	public destroyAnimations() {
+		for (const animationName of Object.keys(this.animations)) {
+			this.animations[animationName]._destroy();
+		}
+		this.animations = {};
+		const interpolations = this.interpolations;
+		this.interpolations = {};
+		for (const animationName of Object.keys(interpolations)) {
+			interpolations[animationName].resolve();
+		}
+		const fades = new Set(Object.values(this.fades));
+		this.fades = {};
+		for (const fade of fades) {
+			this.actor.context.internal.removeUpdateStep(fade.step);
+			fade.promise.resolve();
+		}
+	}
+
+	/** Stop the cross-fade of an animation where it is, resolving its promise. */
+	private stopFade(animationName: string) {
+		const fade = this.fades[animationName];
+		if (fade) {
+			this.actor.context.internal.removeUpdateStep(fade.step);
+			for (const name of Object.keys(this.fades).filter(key => this.fades[key] === fade)) {
+				delete this.fades[name];
+			}
+			fade.promise.resolve();
+		}
+	}
+
 	public getPatchAndReset(): ActorLike {
 		const patch = this.patch;
 		if (patch) {
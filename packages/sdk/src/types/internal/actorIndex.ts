@@ -0,0 +1,184 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { Actor } from '../..';
+import { ZeroGuid } from '../../constants';
+import parseSelector, { CompoundSelector, SelectorComponent } from '../../utils/parseSelector';
+
+type IndexedValues = {
+	name: string;
+	tag: string;
+	parentId: string;
+	components: SelectorComponent[];
+};
+
+/**
+ * @hidden
+ * Lookup tables of actors by name, tag, parent and component, kept up to date as actors change. Answers selector
+ * queries without scanning every actor in the context.
+ */
+export class ActorIndex {
+	private indexed = new Map<Actor, IndexedValues>();
+	private byName = new Map<string, Set<Actor>>();
+	private byTag = new Map<string, Set<Actor>>();
+	private byParent = new Map<string, Set<Actor>>();
+	private byComponent = new Map<SelectorComponent, Set<Actor>>();
+
+	/**
+	 * Add the actor to the index, or move it to match its current name, tag, parent and components.
+	 */
+	public update(actor: Actor) {
+		if (actor.context.actor(actor.id) !== actor) {
+			// Destroyed actors stay out of the index.
+			return;
+		}
+		const values: IndexedValues = {
+			name: actor.name,
+			tag: actor.tag,
+			parentId: actor.parentId || ZeroGuid,
+			components: [
+				...(actor.light ? ['light'] : []),
+				...(actor.text ? ['text'] : []),
+				...(actor.rigidBody ? ['rigidBody'] : []),
+				...(actor.collider ? ['collider'] : []),
+			] as SelectorComponent[]
+		};
+		// Only move the actor between the buckets that changed, so iteration order is otherwise kept.
+		const prev = this.indexed.get(actor) || { name: undefined, tag: undefined, parentId: undefined, components: [] };
+		this.indexed.set(actor, values);
+		this.move(this.byName, prev.name, values.name, actor);
+		this.move(this.byTag, prev.tag, values.tag, actor);
+		this.move(this.byParent, prev.parentId, values.parentId, actor);
+		for (const component of values.components.filter(c => !prev.components.includes(c))) {
+			this.add(this.byComponent, component, actor);
+		}
+		for (const component of prev.components.filter(c => !values.components.includes(c))) {
+			this.delete(this.byComponent, component, actor);
+		}
+	}
+
+	/**
+	 * Remove the actor from the index.
+	 */
+	public remove(actor: Actor) {
+		const prev = this.indexed.get(actor);
+		if (prev) {
+			this.indexed.delete(actor);
+			this.delete(this.byName, prev.name, actor);
+			this.delete(this.byTag, prev.tag, actor);
+			this.delete(this.byParent, prev.parentId, actor);
+			for (const component of prev.components) {
+				this.delete(this.byComponent, component, actor);
+			}
+		}
+	}
+
+	/**
+	 * Get the actors parented directly to the given actor.
+	 */
+	public childrenOf(actorId: string): Actor[] {
+		return [...(this.byParent.get(actorId) || [])];
+	}
+
+	/**
+	 * Find all actors matching the selector. See [[parseSelector]] for the syntax.
+	 * @param selector The selector to match.
+	 * @param scope If given, only descendants of this actor are returned.
+	 */
+	public query(selector: string, scope?: Actor): Actor[] {
+		const parsed = parseSelector(selector);
+		const results = new Set<Actor>();
+		for (const complex of parsed) {
+			const last = complex.compounds.length - 1;
+			for (const actor of this.candidates(complex.compounds[last])) {
+				if (!results.has(actor) && this.matches(actor, complex.compounds, complex.combinators, last) &&
+					(!scope || this.isDescendant(actor, scope))) {
+					results.add(actor);
+				}
+			}
+		}
+		return [...results];
+	}
+
+	/** Narrow down the actors to check using the most selective index available. */
+	private candidates(compound: CompoundSelector): Iterable<Actor> {
+		if (compound.names.length) {
+			return this.byName.get(compound.names[0]) || [];
+		} else if (compound.tags.length) {
+			return this.byTag.get(compound.tags[0]) || [];
+		} else if (compound.components.length) {
+			return this.byComponent.get(compound.components[0]) || [];
+		} else {
+			return this.indexed.keys();
+		}
+	}
+
+	/** Test the actor against the compound at `index`, and its ancestors against the compounds before it. */
+	private matches(
+		actor: Actor, compounds: CompoundSelector[], combinators: Array<'child' | 'descendant'>, index: number
+	): boolean {
+		if (!this.matchesCompound(actor, compounds[index])) {
+			return false;
+		} else if (index === 0) {
+			return true;
+		}
+
+		let ancestor = actor.parent;
+		if (combinators[index - 1] === 'child') {
+			return !!ancestor && this.matches(ancestor, compounds, combinators, index - 1);
+		}
+		for (; ancestor; ancestor = ancestor.parent) {
+			if (this.matches(ancestor, compounds, combinators, index - 1)) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private matchesCompound(actor: Actor, compound: CompoundSelector) {
+		const values = this.indexed.get(actor);
+		return !!values &&
+			compound.names.every(name => name === values.name) &&
+			compound.tags.every(tag => tag === values.tag) &&
+			compound.components.every(component => values.components.includes(component));
+	}
+
+	private isDescendant(actor: Actor, scope: Actor) {
+		for (let ancestor = actor.parent; ancestor; ancestor = ancestor.parent) {
+			if (ancestor === scope) {
+				return true;
+			}
+		}
+		return false;
+	}
+
+	private move<T>(map: Map<T, Set<Actor>>, from: T, to: T, actor: Actor) {
+		if (from !== to) {
+			this.delete(map, from, actor);
+			this.add(map, to, actor);
+		}
+	}
+
+	private add<T>(map: Map<T, Set<Actor>>, key: T, actor: Actor) {
+		if (key === undefined) {
+			return;
+		}
+		let set = map.get(key);
+		if (!set) {
+			map.set(key, set = new Set<Actor>());
+		}
+		set.add(actor);
+	}
+
+	private delete<T>(map: Map<T, Set<Actor>>, key: T, actor: Actor) {
+		const set = map.get(key);
+		if (set) {
+			set.delete(actor);
+			if (!set.size) {
+				map.delete(key);
+			}
+		}
+	}
+}
@@ -0,0 +1,278 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+	AnimationBlendMode, AnimationEvent, AnimationWrapMode, CreateAnimationOptions, SetAnimationStateOptions
+} from '../..';
+
+/**
+ * @hidden
+ * Follows the playback of an animation app-side, from its last known state, so its current time can be estimated and
+ * animation events can be raised when playback crosses their times. Playback positions are "unwrapped": they keep
+ * growing past the end of a looping animation, and are only mapped back into the animation's length when needed.
+ */
+export class AnimationClock {
+	/** The length of the animation, in seconds. */
+	public readonly duration: number;
+	private events: AnimationEvent[];
+	private mode: AnimationWrapMode;
+	/** How the animation is blended, which doesn't affect playback but is part of its state. */
+	private blending: Pick<SetAnimationStateOptions, 'weight' | 'layer' | 'blendMode'> = {
+		weight: 1,
+		layer: 0,
+		blendMode: AnimationBlendMode.Override
+	};
+
+	private position = 0;
+	private speed = 1;
+	private enabled = false;
+	/** When `position` was last brought up to date, in milliseconds. */
+	private basisTime = Date.now();
+	/** Whether an event exactly at `position` has yet to be raised, i.e. playback has just started from there. */
+	private atStart = true;
+	/**
+	 * The animation time playback started from. A looping animation's start and end are the same position, so this
+	 * tells whether playback starts at the beginning or the end of the loop.
+	 */
+	private startTime = 0;
+	/** The time playback was last known to be at while enabled, i.e. where it stopped once disabled. */
+	private lastTime = 0;
+	private timer: NodeJS.Timer;
+
+	public get wrapMode() { return this.mode; }
+
+	/** The current state of the animation, with its time estimated from its last known state. */
+	public get state(): SetAnimationStateOptions {
+		const position = this.positionAt(Date.now());
+		if (this.hasEnded(position)) {
+			return { time: 0, speed: this.speed, enabled: false, wrapMode: this.mode, ...this.blending };
+		}
+		return {
+			time: this.wrap(position),
+			speed: this.speed,
+			enabled: this.enabled,
+			wrapMode: this.mode,
+			...this.blending
+		};
+	}
+
+	/**
+	 * @param options The animation to follow.
+	 * @param raiseEvent Called with each animation event playback passes, if given.
+	 * @param disabled Called with the time playback stopped at when the animation is disabled, if given.
+	 */
+	constructor(
+		options: CreateAnimationOptions,
+		private raiseEvent?: (event: AnimationEvent) => void,
+		private disabled?: (time: number) => void
+	) {
+		this.duration = Math.max(0, ...options.keyframes.map(frame => frame.time));
+		this.mode = options.wrapMode || AnimationWrapMode.Once;
+		this.events = options.events || [];
+		this.setState({ time: 0, speed: 1, enabled: false, ...options.initialState });
+	}
+
+	/**
+	 * Apply a change to the animation's time, speed or enabled state.
+	 */
+	public setState(state: SetAnimationStateOptions) {
+		// Catch up with playback under the old state first.
+		const wasEnabled = this.enabled;
+		const crossed = this.advance();
+		if (state.time !== undefined) {
+			this.position = state.time < 0 ? this.duration : state.time;
+			this.startTime = this.position;
+			this.atStart = true;
+		}
+		if (state.speed !== undefined) {
+			this.speed = state.speed;
+		}
+		if (state.weight !== undefined) {
+			this.blending.weight = state.weight;
+		}
+		if (state.layer !== undefined) {
+			this.blending.layer = state.layer;
+		}
+		if (state.blendMode !== undefined) {
+			this.blending.blendMode = state.blendMode;
+		}
+		if (state.wrapMode !== undefined && state.wrapMode !== this.mode) {
+			// Positions are only unwrapped the same way under the same mode, so start over from the current time.
+			this.position = this.wrap(this.position);
+			this.startTime = this.wrap(this.startTime);
+			this.mode = state.wrapMode;
+		}
+		if (state.enabled !== undefined) {
+			if (state.enabled && !this.enabled && !this.atStart) {
+				this.startTime = this.wrap(this.position);
+				this.atStart = true;
+			}
+			this.enabled = state.enabled;
+		}
+		this.schedule();
+		this.notify(crossed, wasEnabled);
+	}
+
+	/**
+	 * Stop raising events.
+	 */
+	public stop() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		this.enabled = false;
+	}
+
+	private positionAt(now: number) {
+		if (!this.enabled) {
+			return this.position;
+		}
+		const position = this.position + this.speed * (now - this.basisTime) / 1000;
+		return this.wrapMode === AnimationWrapMode.Once || !this.duration ?
+			Math.min(Math.max(position, 0), this.duration) :
+			position;
+	}
+
+	/** Map an unwrapped playback position to a time within the animation. */
+	private wrap(position: number) {
+		if (!this.duration) {
+			return 0;
+		}
+		switch (this.wrapMode) {
+			case AnimationWrapMode.Loop:
+				return mod(position, this.duration);
+			case AnimationWrapMode.PingPong: {
+				const phase = mod(position, 2 * this.duration);
+				return phase <= this.duration ? phase : 2 * this.duration - phase;
+			}
+			default:
+				return position;
+		}
+	}
+
+	/** Bring the playback position up to date, and return the events crossed since the last update. */
+	private advance() {
+		const now = Date.now();
+		const from = this.position;
+		const to = this.positionAt(now);
+		const crossed = this.crossings(from, to, this.atStart && this.enabled).map(crossing => crossing.event);
+		this.basisTime = now;
+		if (this.enabled) {
+			this.lastTime = this.wrap(to);
+			this.atStart = this.atStart && this.speed === 0;
+		}
+
+		if (this.hasEnded(to)) {
+			// The animation has run to its end, so it disables itself and rewinds, like on the engine.
+			this.enabled = false;
+			this.position = 0;
+			this.startTime = 0;
+			this.atStart = true;
+		} else if (this.wrapMode !== AnimationWrapMode.Once && this.duration) {
+			// Keep the position small, without changing the direction of a ping-pong.
+			const period = (this.wrapMode === AnimationWrapMode.PingPong ? 2 : 1) * this.duration;
+			this.position = mod(to, period);
+		} else {
+			this.position = to;
+		}
+		return crossed;
+	}
+
+	/** Whether a non-looping animation has run to its end by the given position. */
+	private hasEnded(position: number) {
+		return (this.wrapMode === AnimationWrapMode.Once || !this.duration) && this.enabled &&
+			(this.speed > 0 && position >= this.duration || this.speed < 0 && position <= 0);
+	}
+
+	private notify(events: AnimationEvent[], wasEnabled: boolean) {
+		// Handlers may change the animation's state, so only call them once the clock is consistent.
+		const stopped = wasEnabled && !this.enabled;
+		if (this.raiseEvent) {
+			for (const event of events) {
+				this.raiseEvent(event);
+			}
+		}
+		if (stopped && this.disabled) {
+			this.disabled(this.lastTime);
+		}
+	}
+
+	/** Wait until playback reaches the next event, or the end of a non-looping animation. */
+	private schedule() {
+		clearTimeout(this.timer);
+		this.timer = undefined;
+		const once = this.wrapMode === AnimationWrapMode.Once || !this.duration;
+		const events = this.raiseEvent ? this.events.length : 0;
+		if (!this.enabled || this.speed === 0 || !events && !(once && this.disabled)) {
+			return;
+		}
+
+		let end: number;
+		if (once) {
+			end = this.speed > 0 ? this.duration : 0;
+		} else {
+			// Every event occurs at least once per period.
+			const period = (this.wrapMode === AnimationWrapMode.PingPong ? 2 : 1) * this.duration;
+			end = this.position + Math.sign(this.speed) * period;
+		}
+		const next = this.crossings(this.position, end, this.atStart)[0];
+		const target = next ? next.at : end;
+
+		// Timers can fire a little early. If that happens, advancing raises nothing and this is called again.
+		const delay = Math.max(0, (target - this.position) / this.speed * 1000) + 1;
+		this.timer = setTimeout(() => {
+			this.timer = undefined;
+			const wasEnabled = this.enabled;
+			const crossed = this.advance();
+			this.schedule();
+			this.notify(crossed, wasEnabled);
+		}, delay);
+	}
+
+	/** Find the events passed when playback moves from one position to another, in the order they're passed. */
+	private crossings(from: number, to: number, includeFrom: boolean): Array<{ at: number, event: AnimationEvent }> {
+		if (from === to && !includeFrom) {
+			return [];
+		}
+		const forward = to >= from;
+		const lo = Math.min(from, to);
+		const hi = Math.max(from, to);
+		const crossed: Array<{ at: number, event: AnimationEvent }> = [];
+		for (const event of this.events) {
+			for (const at of this.occurrences(event.time, lo, hi)) {
+				if (at !== from || includeFrom && (this.wrapMode !== AnimationWrapMode.Loop || event.time === this.startTime)) {
+					crossed.push({ at, event });
+				}
+			}
+		}
+		// Where a loop wraps around, events at the end of the animation come before those at the start.
+		return crossed.sort((a, b) => forward ?
+			a.at - b.at || b.event.time - a.event.time :
+			b.at - a.at || a.event.time - b.event.time);
+	}
+
+	/** Find the unwrapped playback positions between `lo` and `hi` (inclusive) that map to the given time. */
+	private occurrences(time: number, lo: number, hi: number): number[] {
+		if (this.wrapMode === AnimationWrapMode.Once || !this.duration) {
+			return time >= lo && time <= hi ? [time] : [];
+		}
+
+		// Looping animations pass each time once per period, and ping-pongs twice, going forward then back.
+		const period = (this.wrapMode === AnimationWrapMode.PingPong ? 2 : 1) * this.duration;
+		const phases = this.wrapMode === AnimationWrapMode.PingPong && time > 0 && time < this.duration ?
+			[time, period - time] :
+			[time];
+		const result: number[] = [];
+		for (const phase of phases) {
+			for (let k = Math.ceil((lo - phase) / period); phase + k * period <= hi; k++) {
+				result.push(phase + k * period);
+			}
+		}
+		return result;
+	}
+}
+
+function mod(value: number, divisor: number) {
+	return (value % divisor + divisor) % divisor;
+}
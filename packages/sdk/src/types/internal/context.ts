@@ -3,6 +3,8 @@
  * Licensed under the MIT License.
  */
 
+import deepmerge from 'deepmerge';
+import { extname } from 'path';
 import UUID from 'uuid/v4';
 
 import {
@@ -10,16 +12,25 @@ import {
 	Actor,
 	ActorLike,
 	ActorSet,
+	ActorSnapshot,
+	Animation,
 	AnimationWrapMode,
 	Asset,
 	AssetContainer,
 	AssetContainerIterable,
+	AssetContainerSnapshot,
 	AssetLike,
 	BehaviorType,
+	BufferHost,
+	ChangeEvent,
+	ChangeSource,
 	ColliderType,
 	CollisionEvent,
 	Context,
+	ContextSnapshot,
+	ContextSnapshotVersion,
 	CreateAnimationOptions,
+	materialTextureProperties,
 	MediaCommand,
 	PerformanceStats,
 	SetAnimationStateOptions,
@@ -37,11 +48,30 @@ import { log } from '../../log';
 import * as Protocols from '../../protocols';
 import { Execution } from '../../protocols/execution';
 import { Handshake } from '../../protocols/handshake';
+import { ExportedPromise } from '../../utils/exportedPromise';
 import resolveJsonValues from '../../utils/resolveJsonValues';
 import safeGet from '../../utils/safeAccessPath';
+import validateKeyframes from '../../utils/validateKeyframes';
 import { OperatingModel } from '../network/operatingModel';
 import { Patchable } from '../patchable';
 import { MediaInstance } from '../runtime/mediaInstance';
+import { ActorIndex } from './actorIndex';
+
+/**
+ * @hidden
+ */
+export type ActiveMediaInstance = {
+	actorId: string;
+	mediaAssetId: string;
+	options: SetMediaStateOptions;
+	basisTime: number;
+};
+
+/** A message to send to clients, with the promise to resolve with its reply. */
+type OutgoingMessage = { payload: Payloads.Payload, promise?: ExportedPromise };
+
+/** The shortest time between updates while update steps are in progress, in milliseconds. */
+const updateStepInterval = 50;
 
 /**
  * @hidden
@@ -50,15 +80,40 @@ export class InternalContext {
 	public actorSet: ActorSet = {};
 	public userSet: UserSet = {};
 	public userGroupMapping: { [id: string]: number } = { default: 1 };
+	public mediaInstances: { [id: string]: ActiveMediaInstance } = {};
+	public actorIndex = new ActorIndex();
 	public assetContainers = new Set<AssetContainer>();
+	/** Totals of the assets unloaded so far, since they're no longer in any container. */
+	public unloadedAssetStats = {
+		unloadedAssetCount: 0,
+		unloadedTexturePixelsTotal: 0,
+		unloadedMeshVerticesTotal: 0
+	};
 	public protocol: Protocols.Protocol;
-	public interval: NodeJS.Timer;
+	/** The optional protocol messages the client advertised support for during the handshake. */
+	public clientCapabilities: Payloads.ClientCapability[] = [];
+	public running = false;
 	public generation = 0;
 	public prevGeneration = 0;
+	public batchDepth = 0;
 	// tslint:disable-next-line:variable-name
 	public __rpc: any;
 
-	constructor(public context: Context) {
+	/** Messages held back by a batch, in the order they were sent, with the promises of those expecting replies. */
+	private heldMessages: OutgoingMessage[] = [];
+	/** Whether a batch has ended since the last update, so the next one sends what it held. */
+	private batchEnded = false;
+	private pendingChanges: Map<Actor | Asset, string[]>;
+	private pendingChangeSource: ChangeSource;
+	private updateTimer: NodeJS.Timer;
+	private lastUpdateTime = 0;
+	/** Work advanced on every update until it's done, such as cross-fades. */
+	private updateSteps = new Set<() => boolean>();
+	/** Counts the ticks in which animations were sampled, and the timer that ends the current one. */
+	private samplingTick = 0;
+	private samplingTickTimer: NodeJS.Immediate;
+
+	constructor(public context: Context, private maxUpdateRate?: number, public bufferHost?: BufferHost) {
 		// Handle connection close events.
 		this.onClose = this.onClose.bind(this);
 		this.context.conn.on('close', this.onClose);
@@ -81,7 +136,7 @@ export class InternalContext {
 		resourceId: string,
 		actor?: Partial<ActorLike>
 	}): Actor {
-		return this.createActorFromPayload({
+		const actor = this.createActorFromPayload({
 			...options,
 			actor: {
 				...(options && options.actor),
@@ -89,13 +144,15 @@ export class InternalContext {
 			},
 			type: 'create-from-library'
 		} as Payloads.CreateFromLibrary);
+		actor.internal.resourceId = options.resourceId;
+		return actor;
 	}
 
 	public CreateFromPrefab(options: {
 		prefabId: string,
 		actor?: Partial<ActorLike>
 	}): Actor {
-		return this.createActorFromPayload({
+		const actor = this.createActorFromPayload({
 			...options,
 			actor: {
 				...(options && options.actor),
@@ -103,6 +160,27 @@ export class InternalContext {
 			},
 			type: 'create-from-prefab'
 		} as Payloads.CreateFromPrefab);
+		this.createPrefabAnimations(actor, options.prefabId);
+		return actor;
+	}
+
+	/**
+	 * Give an actor spawned from a prefab handles to the prefab's animation clips, which the engine adds to it.
+	 */
+	private createPrefabAnimations(actor: Actor, prefabId: string) {
+		const prefab = this.lookupAsset(prefabId);
+		if (!prefab || !prefab.prefab) {
+			return;
+		}
+		const animations = actor.internal.animations;
+		for (const clip of prefab.prefab.animations) {
+			if (animations[clip.name]) {
+				animations[clip.name]._destroy();
+			}
+			animations[clip.name] = new Animation(actor, clip.name, {
+				keyframes: [{ time: 0, value: {} }, { time: clip.duration, value: {} }]
+			});
+		}
 	}
 
 	private createActorFromPayload(
@@ -116,7 +194,7 @@ export class InternalContext {
 		// Get a reference to the new actor.
 		const actor = this.context.actor(payload.actor.id);
 
-		this.protocol.sendPayload( payload, {
+		this.sendPayload(payload, {
 			resolve: (replyPayload: Payloads.ObjectSpawned | Payloads.OperationResult) => {
 				this.protocol.recvPayload(replyPayload);
 				let success: boolean;
@@ -131,6 +209,7 @@ export class InternalContext {
 					for (const createdActorLike of replyPayload.actors) {
 						const createdActor = this.actorSet[createdActorLike.id];
 						if (createdActor) {
+							createdActor.internal.engineSpawned = createdActor !== actor;
 							createdActor.internal.notifyCreated(success, replyPayload.result.message);
 						}
 					}
@@ -155,6 +234,105 @@ export class InternalContext {
 		return actor;
 	}
 
+	public CreateBatch(actorLikes: Array<Partial<ActorLike>>): Actor[] {
+		// Clients that can't create several actors from one message are sent a message per actor, parents first.
+		if (!this.clientCapabilities.includes('create-empty-batch')) {
+			return actorLikes.map(actor => this.createActorFromPayload({
+				type: 'create-empty',
+				actor
+			} as Payloads.CreateEmpty));
+		}
+
+		// Resolve by-reference values now, as in createActorFromPayload.
+		const payload = {
+			type: 'create-empty-batch',
+			actors: actorLikes.map(actorLike => Actor.sanitize(actorLike))
+		} as Payloads.CreateEmptyBatch;
+		// Create the actors locally, parents first.
+		this.updateActors(payload.actors);
+		const actors = payload.actors.map(actorLike => this.actorSet[actorLike.id]);
+
+		this.sendPayload(payload, {
+			resolve: (replyPayload: Payloads.ObjectSpawned | Payloads.OperationResult) => {
+				this.protocol.recvPayload(replyPayload);
+				const result = replyPayload.type === 'operation-result' ? replyPayload : replyPayload.result;
+				const success = result.resultCode !== 'error';
+				for (const actor of actors) {
+					actor.internal.notifyCreated(success, success ? undefined : result.message);
+				}
+			},
+			reject: (reason?: any) => {
+				for (const actor of actors) {
+					actor.internal.notifyCreated(false, reason);
+				}
+			}
+		});
+
+		return actors;
+	}
+
+	public cloneActor(source: Actor, options: {
+		actor?: Partial<ActorLike>,
+		animations?: boolean
+	}): Actor {
+		// Collect the hierarchy parents-first, and give every actor in it a new id.
+		const sources: Actor[] = [];
+		const visit = (actor: Actor) => {
+			sources.push(actor);
+			actor.children.forEach(visit);
+		};
+		visit(source);
+		const idMap: { [id: string]: string } = {};
+		for (const actor of sources) {
+			idMap[actor.id] = UUID();
+		}
+
+		const actorLikes = sources.map(actor => {
+			const actorLike: Partial<ActorLike> = {
+				...actor.toJSON(),
+				id: idMap[actor.id],
+				parentId: idMap[actor.parentId] || actor.parentId,
+				attachment: undefined
+			};
+			// The app transform is derived from the local one, and would conflict with root overrides.
+			delete actorLike.transform.app;
+			// Actors looking at a cloned actor look at its clone instead.
+			if (actorLike.lookAt && idMap[actorLike.lookAt.actorId]) {
+				actorLike.lookAt = { ...actorLike.lookAt, actorId: idMap[actorLike.lookAt.actorId] };
+			}
+			return actorLike;
+		});
+		if (options.actor) {
+			actorLikes[0] = deepmerge(
+				actorLikes[0],
+				{ ...Actor.sanitize(options.actor), id: actorLikes[0].id },
+				{ arrayMerge: (_, overrides) => overrides });
+		}
+
+		const clones = this.CreateBatch(actorLikes);
+
+		// Subscriptions, behaviors, event handlers and animations aren't copied by `Actor.copy`, so apply them now.
+		sources.forEach((actor, i) => {
+			const clone = clones[i];
+			actor.subscriptions.forEach(subscription => clone.subscribe(subscription));
+			if (actor.collider && clone.collider) {
+				clone.collider.internal.copyHandlers(actor.collider.internal);
+			}
+			if (actor.internal.behavior) {
+				clone.internal.behavior = actor.internal.behavior._clone();
+				this.setBehavior(clone.id, clone.internal.behavior.behaviorType);
+			}
+			if (options.animations) {
+				for (const animationName of Object.keys(actor.internal.createdAnimations)) {
+					this.createAnimation(clone.id, animationName,
+						actor.internal.createdAnimations[animationName].options);
+				}
+			}
+		});
+
+		return clones[0];
+	}
+
 	public CreateFromGltf(container: AssetContainer, options: {
 		uri: string,
 		colliderType?: 'box' | 'mesh',
@@ -166,7 +344,7 @@ export class InternalContext {
 		const actor = this.context.actor(options.actor.id);
 
 		// reserve actor so the pending actor is ready for commands
-		this.protocol.sendPayload({
+		this.sendPayload({
 			type: 'x-reserve-actor',
 			actor: options.actor
 		} as Payloads.XReserveActor);
@@ -192,13 +370,14 @@ export class InternalContext {
 				prefabId: prefab.id,
 				actor: options.actor
 			} as Payloads.CreateFromPrefab);
+			this.createPrefabAnimations(actor, prefab.id);
 		})
 		.catch(reason => actor.internal.notifyCreated(false, reason));
 
 		return actor;
 	}
 
-	public createAnimation(actorId: string, animationName: string, options: CreateAnimationOptions) {
+	public createAnimation(actorId: string, animationName: string, options: CreateAnimationOptions): Animation {
 		const actor = this.actorSet[actorId];
 		if (!actor) {
 			log.error('app', `Failed to create animation on ${animationName}. Actor ${actorId} not found.`);
@@ -218,12 +397,43 @@ export class InternalContext {
 		// Resolve by-reference values now, ensuring they won't change in the
 		// time between now and when this message is actually sent.
 		options.keyframes = resolveJsonValues(options.keyframes);
-		this.protocol.sendPayload({
+
+		// Invalid keyframes are reported like other failures, rather than left for each client to handle differently.
+		let invalid: string;
+		try {
+			validateKeyframes(options.keyframes);
+		} catch (e) {
+			invalid = e.message;
+		}
+		if (!invalid && actor && options.keyframes.some(frame => !!frame.value.material) &&
+			actor.appearance.materialId === ZeroGuid) {
+			invalid = "Material animations require the actor to have a material";
+		}
+		if (invalid) {
+			log.error('app', `Failed to create animation ${animationName} on actor ${actorId}. ${invalid}`);
+			return undefined;
+		}
+
+		if (actor) {
+			actor.internal.createdAnimations[animationName] = {
+				options,
+				state: { time: 0, speed: 1, enabled: false, ...options.initialState }
+			};
+			// Follow playback app-side, so the animation's time can be estimated and its events raised without a
+			// round trip to the clients.
+			const animations = actor.internal.animations;
+			if (animations[animationName]) {
+				animations[animationName]._destroy();
+			}
+			animations[animationName] = new Animation(actor, animationName, options);
+		}
+		this.sendPayload({
 			type: 'create-animation',
 			actorId,
 			animationName,
 			...options
 		} as Payloads.CreateAnimation);
+		return actor ? actor.internal.animations[animationName] : undefined;
 	}
 
 	public setAnimationState(
@@ -235,7 +445,8 @@ export class InternalContext {
 		if (!actor) {
 			log.error('app', `Failed to set animation state on ${animationName}. Actor ${actorId} not found.`);
 		} else {
-			this.protocol.sendPayload({
+			actor.internal.updateAnimationState(animationName, state);
+			this.sendPayload({
 				type: 'set-animation-state',
 				actorId,
 				animationName,
@@ -250,7 +461,8 @@ export class InternalContext {
 		options?: SetMediaStateOptions,
 		mediaAssetId?: string,
 	) {
-		this.protocol.sendPayload({
+		this.trackMediaState(mediaInstance, command, options, mediaAssetId);
+		this.sendPayload({
 			type: 'set-media-state',
 			id: mediaInstance.id,
 			actorId: mediaInstance.actor.id,
@@ -260,29 +472,88 @@ export class InternalContext {
 		} as Payloads.SetMediaState);
 	}
 
+	private trackMediaState(
+		mediaInstance: MediaInstance,
+		command: MediaCommand,
+		options: SetMediaStateOptions,
+		mediaAssetId: string
+	) {
+		const basisTime = Date.now() / 1000;
+		const active = this.mediaInstances[mediaInstance.id];
+		if (command === MediaCommand.Start) {
+			// Garbage collect finished media instances when starting a new one.
+			for (const id of Object.keys(this.mediaInstances)) {
+				if (this.mediaInstanceExpired(this.mediaInstances[id], basisTime)) {
+					delete this.mediaInstances[id];
+				}
+			}
+			this.mediaInstances[mediaInstance.id] = {
+				actorId: mediaInstance.actor.id,
+				mediaAssetId,
+				options: { ...options },
+				basisTime
+			};
+		} else if (command === MediaCommand.Stop) {
+			delete this.mediaInstances[mediaInstance.id];
+		} else if (active) {
+			this.advanceMediaTime(active, basisTime);
+			active.options = { ...active.options, ...options };
+		}
+	}
+
+	private advanceMediaTime(active: ActiveMediaInstance, basisTime: number) {
+		if (!active.options.paused) {
+			const pitch = active.options.pitch || 0;
+			const elapsed = (basisTime - active.basisTime) * Math.pow(2.0, pitch / 12.0);
+			active.options.time = (active.options.time || 0) + elapsed;
+		}
+		active.basisTime = basisTime;
+	}
+
+	private mediaInstanceExpired(active: ActiveMediaInstance, basisTime: number) {
+		if (!this.actorSet[active.actorId]) {
+			return true;
+		}
+		const asset = this.lookupAsset(active.mediaAssetId);
+		const media = asset && (asset.sound || asset.videoStream);
+		if (active.options.looping || active.options.paused || !media || !media.duration) {
+			return false;
+		}
+		const pitch = active.options.pitch || 0;
+		const elapsed = (basisTime - active.basisTime) * Math.pow(2.0, pitch / 12.0);
+		return (active.options.time || 0) + elapsed >= media.duration;
+	}
+
 	public animateTo(
 		actorId: string,
 		value: Partial<ActorLike>,
 		duration: number,
 		curve: number[],
-	) {
+		animationName = UUID()
+	): Promise<void> {
 		const actor = this.actorSet[actorId];
 		if (!actor) {
 			log.error('app', `Failed animateTo. Actor ${actorId} not found.`);
+			return Promise.resolve();
 		} else if (!Array.isArray(curve) || curve.length !== 4) {
 			// tslint:disable-next-line:max-line-length
 			log.error('app', '`curve` parameter must be an array of four numbers. Try passing one of the predefined curves from `AnimationEaseCurves`');
-		} else {
-			this.protocol.sendPayload({
-				type: 'interpolate-actor',
-				actorId,
-				animationName: UUID(),
-				value,
-				duration,
-				curve,
-				enabled: true
-			} as Payloads.InterpolateActor);
+			return Promise.resolve();
 		}
+		// Resolved once the interpolation's animation is disabled, or the actor is destroyed.
+		const promise = new Promise<void>((resolve, reject) => {
+			actor.internal.interpolations[animationName] = { resolve, reject };
+		});
+		this.sendPayload({
+			type: 'interpolate-actor',
+			actorId,
+			animationName,
+			value,
+			duration,
+			curve,
+			enabled: true
+		} as Payloads.InterpolateActor);
+		return promise;
 	}
 
 	public async startListening() {
@@ -291,11 +562,11 @@ export class InternalContext {
 			const handshake = this.protocol =
 				new Handshake(this.context.conn, this.context.sessionId, OperatingModel.ServerAuthoritative);
 			await handshake.run();
+			this.clientCapabilities = handshake.capabilities;
 
 			// Switch to execution protocol.
 			const execution = this.protocol = new Execution(this.context);
 
-			this.updateActors = this.updateActors.bind(this);
 			this.localDestroyActors = this.localDestroyActors.bind(this);
 			this.userJoined = this.userJoined.bind(this);
 			this.userLeft = this.userLeft.bind(this);
@@ -306,7 +577,9 @@ export class InternalContext {
 			this.triggerEventRaised = this.triggerEventRaised.bind(this);
 			this.setAnimationStateEventRaised = this.setAnimationStateEventRaised.bind(this);
 
-			execution.on('protocol.update-actors', this.updateActors);
+			execution.on('protocol.update-actors', (actors: Array<Partial<ActorLike>>) => {
+				this.updateActors(actors, 'client');
+			});
 			execution.on('protocol.destroy-actors', this.localDestroyActors);
 			execution.on('protocol.user-joined', this.userJoined);
 			execution.on('protocol.user-left', this.userLeft);
@@ -325,18 +598,24 @@ export class InternalContext {
 	}
 
 	public start() {
-		if (!this.interval) {
-			this.interval = setInterval(() => this.update(), 0);
+		if (!this.running) {
+			this.running = true;
 			this.context.emitter.emit('started');
+			// Flush anything changed before the context started.
+			this.scheduleUpdate();
 		}
 	}
 
 	public stop() {
 		try {
-			if (this.interval) {
+			if (this.running) {
 				this.protocol.stopListening();
-				clearInterval(this.interval);
-				this.interval = undefined;
+				clearTimeout(this.updateTimer);
+				this.updateTimer = undefined;
+				this.running = false;
+				for (const actor of this.context.actors) {
+					actor.internal.destroyAnimations();
+				}
 				this.context.emitter.emit('stopped');
 				this.context.emitter.removeAllListeners();
 			}
@@ -345,18 +624,164 @@ export class InternalContext {
 
 	public incrementGeneration() {
 		this.generation++;
+		this.scheduleUpdate();
+	}
+
+	/**
+	 * Run a step on every update, until it returns false or is removed. Updates keep running while there are steps,
+	 * at the context's maximum update rate or less often.
+	 */
+	public addUpdateStep(step: () => boolean) {
+		this.updateSteps.add(step);
+		this.scheduleUpdate();
+	}
+
+	public removeUpdateStep(step: () => boolean) {
+		this.updateSteps.delete(step);
+	}
+
+	/**
+	 * Arrange for changes to be flushed to clients. Changes made before the flush are coalesced into it, and flushes
+	 * are spaced out to respect the context's maximum update rate. Nothing is scheduled while nothing changes.
+	 */
+	private scheduleUpdate(minDelay = 0) {
+		if (!this.running || this.updateTimer) {
+			return;
+		}
+		const delay = Math.max(minDelay, this.lastUpdateTime + this.minUpdateInterval - Date.now());
+		this.updateTimer = setTimeout(() => {
+			this.updateTimer = undefined;
+			this.update();
+		}, delay);
+	}
+
+	/**
+	 * Get the current animation sampling tick. Actors that have sampled their animations during it needn't sample them
+	 * again. One timer ends the tick for every actor, and none is set while nothing is sampled.
+	 */
+	public currentSamplingTick() {
+		if (!this.samplingTickTimer) {
+			this.samplingTickTimer = setImmediate(() => {
+				this.samplingTickTimer = undefined;
+				this.samplingTick++;
+			});
+		}
+		return this.samplingTick;
 	}
 
 	private assetsIterable() {
 		return new AssetContainerIterable([...this.assetContainers]);
 	}
 
+	public batch<T>(callback: () => Promise<T>): Promise<T>;
+	public batch<T>(callback: () => T): T;
+	public batch<T>(callback: () => T | Promise<T>): T | Promise<T> {
+		this.batchDepth++;
+		let result: T | Promise<T>;
+		try {
+			result = callback();
+		} catch (e) {
+			this.endBatch();
+			throw e;
+		}
+
+		// Hold updates until an async batch settles.
+		if (result instanceof Promise) {
+			return result.then(
+				value => {
+					this.endBatch();
+					return value;
+				},
+				reason => {
+					this.endBatch();
+					throw reason;
+				});
+		}
+		this.endBatch();
+		return result;
+	}
+
+	private endBatch() {
+		if (--this.batchDepth === 0) {
+			this.batchEnded = true;
+			if (this.running) {
+				// Flush now rather than on the next tick, so nothing else can be sent in between.
+				this.update();
+			}
+		}
+	}
+
+	/**
+	 * Send a message to clients. Inside a batch, the message is held back along with the changes made before it, and
+	 * sent in order when the batch ends.
+	 */
+	public sendPayload(payload: Payloads.Payload, promise?: ExportedPromise) {
+		if (this.batchDepth > 0) {
+			for (const patch of this.collectPatches()) {
+				this.heldMessages.push({ payload: patch });
+			}
+			this.heldMessages.push({ payload, promise });
+		} else {
+			this.protocol.sendPayload(payload, promise);
+		}
+	}
+
 	public update() {
-		// Early out if no state changes occurred.
-		if (this.generation === this.prevGeneration) {
+		this.runUpdateSteps();
+
+		// Early out if no state changes occurred or messages were held, or they're being held for a batch.
+		if (this.generation === this.prevGeneration && !this.heldMessages.length || this.batchDepth > 0) {
 			return;
 		}
 
+		this.lastUpdateTime = Date.now();
+
+		const messages: OutgoingMessage[] = [
+			...this.heldMessages,
+			...this.collectPatches().map(payload => ({ payload }))
+		];
+		const endOfBatch = this.batchEnded;
+		this.heldMessages = [];
+		this.batchEnded = false;
+		if (endOfBatch && messages.length > 1 && this.clientCapabilities.includes('update-batch')) {
+			// Clients that can apply a batch at once are sent it in one message.
+			this.protocol.sendPayload({
+				type: 'update-batch',
+				messages: messages.map(({ payload, promise }) => this.protocol.expectReply({ payload }, promise))
+			} as Payloads.UpdateBatch);
+		} else {
+			for (const { payload, promise } of messages) {
+				this.protocol.sendPayload(payload, promise);
+			}
+		}
+
+		if (this.nextUpdatePromise) {
+			this.resolveNextUpdatePromise();
+			this.nextUpdatePromise = null;
+			this.resolveNextUpdatePromise = null;
+		}
+	}
+
+	private get minUpdateInterval() {
+		return this.maxUpdateRate > 0 ? 1000 / this.maxUpdateRate : 0;
+	}
+
+	private runUpdateSteps() {
+		for (const step of [...this.updateSteps]) {
+			if (!step()) {
+				this.updateSteps.delete(step);
+			}
+		}
+		if (this.updateSteps.size) {
+			this.scheduleUpdate(Math.max(updateStepInterval, this.minUpdateInterval));
+		}
+	}
+
+	/** Get update payloads for the actors, assets and users changed since this was last called. */
+	private collectPatches() {
+		if (this.generation === this.prevGeneration) {
+			return [];
+		}
 		this.prevGeneration = this.generation;
 
 		const syncObjects = [
@@ -365,6 +790,7 @@ export class InternalContext {
 			...Object.values(this.userSet)
 		] as Array<Patchable<any>>;
 
+		const payloads: Payloads.Payload[] = [];
 		for (const patchable of syncObjects) {
 			const patch = patchable.internal.getPatchAndReset();
 			if (!patch) {
@@ -372,28 +798,24 @@ export class InternalContext {
 			}
 
 			if (patchable instanceof Actor) {
-				this.protocol.sendPayload({
+				payloads.push({
 					type: 'actor-update',
 					actor: patch as ActorLike
 				} as Payloads.ActorUpdate);
 			} else if (patchable instanceof Asset) {
-				this.protocol.sendPayload({
+				payloads.push({
 					type: 'asset-update',
 					asset: patch as AssetLike
 				} as Payloads.AssetUpdate);
 			} else if (patchable instanceof User) {
-				this.protocol.sendPayload({
+				payloads.push({
 					type: 'user-update',
 					user: patch as UserLike
 				} as Payloads.UserUpdate);
 			}
 		}
 
-		if (this.nextUpdatePromise) {
-			this.resolveNextUpdatePromise();
-			this.nextUpdatePromise = null;
-			this.resolveNextUpdatePromise = null;
-		}
+		return payloads;
 	}
 
 	private nextUpdatePromise: Promise<void>;
@@ -404,21 +826,24 @@ export class InternalContext {
 			return this.nextUpdatePromise;
 		}
 
-		return this.nextUpdatePromise = new Promise(resolve => {
+		this.nextUpdatePromise = new Promise(resolve => {
 			this.resolveNextUpdatePromise = resolve;
 		});
+		// Updates only run when something changes, so make sure there is one to wait for.
+		this.incrementGeneration();
+		return this.nextUpdatePromise;
 	}
 
 	public sendDestroyActors(actorIds: string[]) {
 		if (actorIds.length) {
-			this.protocol.sendPayload({
+			this.sendPayload({
 				type: 'destroy-actors',
 				actorIds,
 			} as Payloads.DestroyActors);
 		}
 	}
 
-	public updateActors(sactors: Partial<ActorLike> | Array<Partial<ActorLike>>) {
+	public updateActors(sactors: Partial<ActorLike> | Array<Partial<ActorLike>>, source: ChangeSource = 'local') {
 		if (!sactors) {
 			return;
 		}
@@ -431,7 +856,8 @@ export class InternalContext {
 			const isNewActor = !this.actorSet[sactor.id];
 			const actor = isNewActor ? Actor.alloc(this.context, sactor.id) : this.actorSet[sactor.id];
 			this.actorSet[sactor.id] = actor;
-			actor.copy(sactor);
+			// Populating a new actor isn't a change. Its creation is reported separately.
+			this.collectChanges(isNewActor ? null : source, () => actor.copy(sactor));
 			if (isNewActor) {
 				newActorIds.push(actor.id);
 			}
@@ -442,8 +868,47 @@ export class InternalContext {
 		});
 	}
 
-	public sendPayload(payload: Payloads.Payload): void {
-		this.protocol.sendPayload(payload);
+	/**
+	 * Report a change to an actor or asset property. Changes made outside of [[collectChanges]] are made by the app,
+	 * and are reported immediately.
+	 */
+	public recordChange(target: Actor | Asset, path: string) {
+		if (!this.pendingChanges) {
+			this.emitChanged({ target, paths: [path], source: 'local' });
+		} else if (this.pendingChangeSource) {
+			const paths = this.pendingChanges.get(target) || [];
+			if (!paths.includes(path)) {
+				paths.push(path);
+			}
+			this.pendingChanges.set(target, paths);
+		}
+	}
+
+	/**
+	 * Run the callback, and report the changes it makes together once it returns, one event per actor or asset.
+	 * @param source Where the changes came from, or null to discard them.
+	 */
+	public collectChanges(source: ChangeSource, callback: () => void) {
+		const outerChanges = this.pendingChanges;
+		const outerSource = this.pendingChangeSource;
+		const changes = this.pendingChanges = new Map<Actor | Asset, string[]>();
+		this.pendingChangeSource = source;
+		try {
+			callback();
+		} finally {
+			this.pendingChanges = outerChanges;
+			this.pendingChangeSource = outerSource;
+			if (source) {
+				for (const [target, paths] of changes) {
+					this.emitChanged({ target, paths, source });
+				}
+			}
+		}
+	}
+
+	private emitChanged(event: ChangeEvent<Actor | Asset>) {
+		event.target.emitter.emit('changed', event);
+		this.context.emitter.emit('changed', event);
 	}
 
 	public receiveRPC(procName: string, channelName: string, args: any[]) {
@@ -520,6 +985,15 @@ export class InternalContext {
 	public setAnimationStateEventRaised(actorId: string, animationName: string, state: SetAnimationStateOptions) {
 		const actor = this.context.actor(actorId);
 		if (actor) {
+			const animation = actor.internal.animations[animationName];
+			if (animation && state.time !== undefined) {
+				// The client reported the time when it sent the message, so account for the latency since.
+				const speed = state.speed !== undefined ? state.speed : animation.speed;
+				const enabled = state.enabled !== undefined ? state.enabled : animation.enabled;
+				if (enabled) {
+					state = { ...state, time: state.time + speed * this.context.conn.quality.latencyMs.value / 2000 };
+				}
+			}
 			actor.internal.setAnimationStateEventRaised(animationName, state);
 		}
 	}
@@ -539,8 +1013,16 @@ export class InternalContext {
 		(actor.children || []).forEach(child => {
 			this.localDestroyActor(child);
 		});
+		actor.internal.destroyAnimations();
+		// Destroyed actors no longer use their assets
+		for (const asset of [actor.appearance.material, actor.appearance.mesh]) {
+			if (asset) {
+				asset.clearReference(actor);
+			}
+		}
 		// Remove actor from _actors
 		delete this.actorSet[actor.id];
+		this.actorIndex.remove(actor);
 		// Raise event
 		this.context.emitter.emit('actor-destroyed', actor);
 	}
@@ -556,7 +1038,7 @@ export class InternalContext {
 	}
 
 	public sendRigidBodyCommand(actorId: string, payload: Payloads.Payload) {
-		this.protocol.sendPayload({
+		this.sendPayload({
 			type: 'rigidbody-commands',
 			actorId,
 			commandPayloads: [payload]
@@ -566,7 +1048,7 @@ export class InternalContext {
 	public setBehavior(actorId: string, newBehaviorType: BehaviorType) {
 		const actor = this.actorSet[actorId];
 		if (actor) {
-			this.protocol.sendPayload({
+			this.sendPayload({
 				type: 'set-behavior',
 				actorId,
 				behaviorType: newBehaviorType || 'none'
@@ -584,6 +1066,189 @@ export class InternalContext {
 		}
 	}
 
+	public saveSnapshot(): ContextSnapshot {
+		// Order actors parents-first, so they can be re-created in order.
+		const actors: ActorSnapshot[] = [];
+		const visit = (actor: Actor) => {
+			actors.push({
+				actor: actor.toJSON(),
+				resourceId: actor.internal.resourceId,
+				engineSpawned: actor.internal.engineSpawned
+			});
+			actor.children.forEach(visit);
+		};
+		this.context.rootActors.forEach(visit);
+
+		const basisTime = Date.now() / 1000;
+		const mediaInstances = Object.values(this.mediaInstances)
+			.filter(active => !this.mediaInstanceExpired(active, basisTime))
+			.map(active => {
+				const saved = { ...active, options: { ...active.options } };
+				this.advanceMediaTime(saved, basisTime);
+				return { actorId: saved.actorId, mediaAssetId: saved.mediaAssetId, options: saved.options };
+			});
+
+		// Assets shared by several containers are saved with the first of them, and restored unshared.
+		const savedAssets = new Set<Asset>();
+		const saveContainer = (container: AssetContainer): AssetContainerSnapshot => {
+			const assets = container.assets.filter(asset => !savedAssets.has(asset));
+			assets.forEach(asset => savedAssets.add(asset));
+			const loadedFrom = (uri: string, from: Asset[]) => from.some(asset => asset.source && asset.source.uri === uri);
+			return {
+				gltfs: container.gltfLoads.filter(load =>
+					loadedFrom(load.uri, assets) || !loadedFrom(load.uri, container.assets)),
+				assets: assets.map(asset => resolveJsonValues(asset) as AssetLike),
+				hostedBuffers: container.hostedBuffers.reduce((buffers, uri) => ({
+					...buffers, [uri]: this.bufferHost.hostedBuffer(uri).toString('base64')
+				}), {} as AssetContainerSnapshot['hostedBuffers'])
+			};
+		};
+
+		const snapshot: ContextSnapshot = {
+			version: ContextSnapshotVersion,
+			actors,
+			assetContainers: [...this.assetContainers].map(saveContainer),
+			animations: actors.reduce((animations, { actor }) => {
+				const created = this.actorSet[actor.id].internal.createdAnimations;
+				return animations.concat(Object.keys(created).map(animationName => ({
+					actorId: actor.id,
+					animationName,
+					...created[animationName]
+				})));
+			}, [] as ContextSnapshot['animations']),
+			mediaInstances,
+			userGroupMapping: this.userGroupMapping
+		};
+
+		// Detach the snapshot from the live objects.
+		return JSON.parse(JSON.stringify(snapshot));
+	}
+
+	public async restoreSnapshot(snapshot: ContextSnapshot): Promise<AssetContainer[]> {
+		if (snapshot.version !== ContextSnapshotVersion) {
+			throw new Error(`Unsupported context snapshot version: ${snapshot.version}`);
+		}
+
+		this.userGroupMapping = { ...snapshot.userGroupMapping };
+
+		// Reload the glTF files. The engine assigns new ids to their assets, so match them up by source.
+		const assetIds: { [oldId: string]: string } = {};
+		const remap = (id: string) => assetIds[id] || id;
+		const containers = snapshot.assetContainers.map(() => new AssetContainer(this.context));
+		await Promise.all(snapshot.assetContainers.map(async (saved, i) => {
+			const buffers = saved.hostedBuffers || {};
+			for (const gltf of saved.gltfs) {
+				// Files loaded from buffers were only served while their container was loaded, so serve them again.
+				const loaded = buffers[gltf.uri]
+					? await containers[i].loadGltfFromBuffer(Buffer.from(buffers[gltf.uri], 'base64'), gltf.colliderType)
+					: await containers[i].loadGltf(gltf.uri, gltf.colliderType);
+				saved.assets.filter(a => a.source && a.source.uri === gltf.uri).forEach((def, index) => {
+					// Fall back on load order if the engine didn't identify the assets.
+					const asset = def.source.internalId !== undefined
+						? loaded.find(a => a.source.internalId === def.source.internalId)
+						: loaded[index];
+					if (asset) {
+						assetIds[def.id] = asset.id;
+					}
+				});
+			}
+		}));
+
+		// Re-create the app-generated assets, textures first so materials can refer to them.
+		const remapAsset = (def: AssetLike): AssetLike => def.material
+			? { ...def, material: materialTextureProperties.reduce((material, property) => material[property]
+				? { ...material, [property]: remap(material[property]) }
+				: material, def.material) }
+			: def;
+		snapshot.assetContainers.forEach((saved, i) => {
+			const buffers = saved.hostedBuffers || {};
+			const created = saved.assets.filter(def => !def.source);
+			for (const def of [...created.filter(d => d.texture), ...created.filter(d => !d.texture)]) {
+				const restored = remapAsset(def);
+				// As with glTF files, textures created from pixels are served again under new URLs.
+				if (restored.texture && buffers[restored.texture.uri]) {
+					const uri = restored.texture.uri;
+					restored.texture = {
+						...restored.texture,
+						uri: containers[i].hostBuffer(Buffer.from(buffers[uri], 'base64'), extname(uri))
+					};
+				}
+				containers[i].restoreAsset(restored);
+			}
+			// Reapply any changes the app made to loaded materials and textures.
+			for (const def of saved.assets.filter(d => d.source && assetIds[d.id] && (d.material || d.texture))) {
+				const { id, name, source, ...changes } = remapAsset(def);
+				const asset = this.lookupAsset(assetIds[id]);
+				asset.copy(changes);
+				this.sendPayload({
+					type: 'asset-update',
+					asset: { ...changes, id: asset.id }
+				} as Payloads.AssetUpdate);
+			}
+		});
+
+		// Re-create the actors with their original ids. Actors spawned by the engine as part of a library
+		// resource will be spawned again by the resource, and user-exclusive actors leave with their user.
+		const skipped = new Set<string>();
+		const libraryNodes = new Set<string>();
+		for (const saved of snapshot.actors) {
+			const actor = saved.actor;
+			if (actor.exclusiveToUser || skipped.has(actor.parentId) ||
+				(saved.engineSpawned && libraryNodes.has(actor.parentId))) {
+				skipped.add(actor.id);
+				continue;
+			}
+			if (saved.resourceId || libraryNodes.has(actor.parentId)) {
+				libraryNodes.add(actor.id);
+			}
+
+			const appearance = actor.appearance || {};
+			const payload = {
+				type: saved.resourceId ? 'create-from-library' : 'create-empty',
+				resourceId: saved.resourceId,
+				actor: {
+					...actor,
+					transform: { local: actor.transform && actor.transform.local },
+					appearance: {
+						...appearance,
+						meshId: appearance.meshId && remap(appearance.meshId),
+						materialId: appearance.materialId && remap(appearance.materialId)
+					}
+				}
+			} as Payloads.CreateFromLibrary | Payloads.CreateEmpty;
+			this.createActorFromPayload(payload).internal.resourceId = saved.resourceId;
+		}
+
+		for (const saved of snapshot.animations.filter(a => !!this.actorSet[a.actorId])) {
+			this.createAnimation(saved.actorId, saved.animationName, {
+				...saved.options,
+				initialState: saved.state
+			});
+		}
+
+		for (const saved of snapshot.mediaInstances.filter(m => !!this.actorSet[m.actorId])) {
+			new MediaInstance(this.actorSet[saved.actorId], remap(saved.mediaAssetId)).start(saved.options);
+		}
+
+		return containers;
+	}
+
+	/**
+	 * Add unloaded assets to the totals reported by [[getStats]].
+	 */
+	public recordUnloadedAssets(assets: Asset[]) {
+		const stats = this.unloadedAssetStats;
+		for (const asset of assets) {
+			stats.unloadedAssetCount++;
+			if (asset.texture) {
+				const resolution = asset.texture.resolution;
+				stats.unloadedTexturePixelsTotal += (resolution.x || 0) * (resolution.y || 0);
+			} else if (asset.mesh) {
+				stats.unloadedMeshVerticesTotal += asset.mesh.vertexCount || 0;
+			}
+		}
+	}
+
 	public getStats(): PerformanceStats {
 		const networkStats = this.protocol.conn.statsReport;
 		const stats: PerformanceStats = {
@@ -599,25 +1264,30 @@ export class InternalContext {
 			meshTrianglesTotal: 0,
 			soundCount: 0,
 			soundSecondsTotal: 0,
+			...this.unloadedAssetStats,
 			...networkStats
 		};
 
+		// Assets shared by several containers are only counted once.
+		const assets = new Set<Asset>();
 		for (const container of this.assetContainers) {
-			stats.prefabCount += container.prefabs.length;
-			stats.materialCount += container.materials.length;
-			stats.textureCount += container.textures.length;
-			stats.meshCount += container.meshes.length;
-			stats.soundCount += container.sounds.length;
-
-			for (const tex of container.textures) {
-				stats.texturePixelsTotal += (tex.texture.resolution.x || 0) * (tex.texture.resolution.y || 0);
-			}
-			for (const mesh of container.meshes) {
-				stats.meshTrianglesTotal += mesh.mesh.triangleCount || 0;
-				stats.meshVerticesTotal += mesh.mesh.vertexCount || 0;
-			}
-			for (const sound of container.sounds) {
-				stats.soundSecondsTotal += sound.sound.duration || 0;
+			container.assets.forEach(asset => assets.add(asset));
+		}
+		for (const asset of assets) {
+			if (asset.prefab) {
+				stats.prefabCount++;
+			} else if (asset.material) {
+				stats.materialCount++;
+			} else if (asset.texture) {
+				stats.textureCount++;
+				stats.texturePixelsTotal += (asset.texture.resolution.x || 0) * (asset.texture.resolution.y || 0);
+			} else if (asset.mesh) {
+				stats.meshCount++;
+				stats.meshTrianglesTotal += asset.mesh.triangleCount || 0;
+				stats.meshVerticesTotal += asset.mesh.vertexCount || 0;
+			} else if (asset.sound) {
+				stats.soundCount++;
+				stats.soundSecondsTotal += asset.sound.duration || 0;
 			}
 		}
 		stats.texturePixelsAverage = stats.texturePixelsTotal / (stats.textureCount || 1);
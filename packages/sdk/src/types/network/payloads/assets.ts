@@ -56,4 +56,6 @@ export type CreateFromPrefab = CreateActorCommon & {
 export type UnloadAssets = Payload & {
 	type: 'unload-assets';
 	containerId: string;
+	/** The assets to unload, if not the whole container. */
+	assetIds?: string[];
 };
@@ -3,7 +3,7 @@
  * Licensed under the MIT License.
  */
 
-import { OperationResultCode, Trace } from '..';
+import { Message, OperationResultCode, Trace } from '..';
 import { CreateAnimationOptions, MediaCommand, SetAnimationStateOptions, SetMediaStateOptions } from '../../..';
 import { PrimitiveDefinition } from '../../primitiveTypes';
 import { ActorLike, ColliderType, TransformLike, UserLike } from '../../runtime';
@@ -25,6 +25,7 @@ export type PayloadType
 	| 'collision-event-raised'
 	| 'create-animation'
 	| 'create-empty'
+	| 'create-empty-batch'
 	| 'create-from-library'
 	| 'destroy-actors'
 	| 'engine2app-rpc'
@@ -54,6 +55,7 @@ export type PayloadType
 	| 'sync-request'
 	| 'traces'
 	| 'trigger-event-raised'
+	| 'update-batch'
 	| 'user-joined'
 	| 'user-left'
 	| 'user-update'
@@ -101,8 +103,17 @@ export type MultiOperationResult = Payload & {
  */
 export type Handshake = Payload & {
 	type: 'handshake';
+	/** The optional protocol messages the client supports. */
+	capabilities?: ClientCapability[];
 };
 
+/**
+ * @hidden
+ * Optional protocol messages a client can advertise support for during the handshake. Apps only send them to clients
+ * that do.
+ */
+export type ClientCapability = 'create-empty-batch' | 'update-batch';
+
 /**
  * @hidden
  * App to engine. Response to Handshake.
@@ -181,6 +192,18 @@ export type CreateEmpty = CreateActorCommon & {
 	type: 'create-empty';
 };
 
+/**
+ * @hidden
+ * App to engine. Create several empty game objects at once. Parents are listed before their children. Only sent to
+ * clients advertising the `create-empty-batch` capability. Multi-peer sessions advertise it when their first client
+ * does, and send clients that join later without it a CreateEmpty per actor instead.
+ * Response is an ObjectSpawned payload.
+ */
+export type CreateEmptyBatch = Payload & {
+	type: 'create-empty-batch';
+	actors: Array<Partial<ActorLike>>;
+};
+
 /**
  * @hidden
  * Engine to app. Response from LoadFromAssetBundle (and similar).
@@ -191,6 +214,17 @@ export type ObjectSpawned = Payload & {
 	result: OperationResult;
 };
 
+/**
+ * @hidden
+ * App to engine. Everything sent in a `Context.batch` call, in order. The engine should apply the messages all in the
+ * same frame, and reply to those expecting replies as if they had been sent on their own. Only sent to clients
+ * advertising the `update-batch` capability.
+ */
+export type UpdateBatch = Payload & {
+	type: 'update-batch';
+	messages: Message[];
+};
+
 /**
  * @hidden
  * Bi-directional. Changed properties of an actor object (sparsely populated).
@@ -48,6 +48,13 @@ export type PerformanceStats = {
 	/** The total number of seconds of loaded audio. */
 	soundSecondsTotal: number;
 
+	/** The number of assets unloaded so far, whether individually, automatically or with their containers. */
+	unloadedAssetCount: number;
+	/** The total number of pixels of the textures unloaded so far. */
+	unloadedTexturePixelsTotal: number;
+	/** The total number of vertices of the meshes unloaded so far. */
+	unloadedMeshVerticesTotal: number;
+
 	/**
 	 * The average incoming bandwidth of this app over the last 1/5/30 seconds, in KB/s. This is roughly equivalent
 	 * to the bandwidth sent by the busiest client over the interval, though does not correlate exactly.
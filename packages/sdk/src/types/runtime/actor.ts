@@ -14,6 +14,7 @@ import {
 	Attachment,
 	AttachmentLike,
 	AttachPoint,
+	ChangeEvent,
 	Collider,
 	ColliderLike,
 	ColliderType,
@@ -24,24 +25,34 @@ import {
 	Prefab,
 	RigidBody,
 	RigidBodyLike,
+	ScaledTransform,
 	Text,
 	TextLike,
 	User,
 } from '.';
 import {
+	Animation,
+	AnimationEvent,
 	Context,
 	CreateAnimationOptions,
+	Curve3,
 	LookAtMode,
+	Matrix,
+	Path3,
+	PathAnimationOptions,
 	PrimitiveDefinition,
 	SetAnimationStateOptions,
 	SetAudioStateOptions,
 	SetVideoStateOptions,
+	Vector3,
 	Vector3Like
 } from '../..';
 
 import { ZeroGuid } from '../../constants';
 import { log } from '../../log';
+import bakePath from '../../utils/bakePath';
 import { observe, unobserve } from '../../utils/observe';
+import pathStartsWith from '../../utils/pathStartsWith';
 import readPath from '../../utils/readPath';
 import resolveJsonValues from '../../utils/resolveJsonValues';
 import { InternalActor } from '../internal/actor';
@@ -129,24 +140,42 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 	public get id() { return this._id; }
 	public get name() { return this._name; }
 	public get tag() { return this._tag; }
-	public set tag(value) { this._tag = value; this.actorChanged('tag'); }
+	public set tag(value) { this._tag = value; this.actorChanged('tag'); this.reindex(); }
 
 	/** @inheritdoc */
 	public get exclusiveToUser() { return this._exclusiveToUser; }
 	public get subscriptions() { return this._subscriptions; }
-	public get transform() { return this._transform; }
+	/**
+	 * The actor's transform. While the actor is animated, the animated values are brought up to date when it's first
+	 * read each tick.
+	 */
+	public get transform() { this.internal.sampleAnimations(); return this._transform; }
 	public set transform(value) { this._transform.copy(value); }
+	/**
+	 * The matrix transforming this actor's local space into app space, computed from the local transforms of this
+	 * actor and its ancestors. Unlike `transform.app`, this is known before clients report back, but doesn't account
+	 * for attachments, look-at or physics, which are only simulated on clients.
+	 */
+	public get worldMatrix() { return this.internal.worldMatrix.clone(); }
+	/**
+	 * The position, rotation and scale of this actor in app space. See [[worldMatrix]].
+	 */
+	public get worldTransform() {
+		const world = new ScaledTransform();
+		this.internal.worldMatrix.decompose(world.scale, world.rotation, world.position);
+		return world;
+	}
 	public get appearance() { return this._appearance; }
 	public set appearance(value) { this._appearance.copy(value); }
-	public get light() { return this._light; }
+	public get light() { this.internal.sampleAnimations(); return this._light; }
 	public get rigidBody() { return this._rigidBody; }
 	public get collider() { return this._collider; }
-	public get text() { return this._text; }
+	public get text() { this.internal.sampleAnimations(); return this._text; }
 	public get attachment() { return this._attachment; }
 	public get lookAt() { return this._lookAt; }
-	public get children() { return this.context.actors.filter(actor => actor.parentId === this.id); }
+	public get children() { return this.context.internal.actorIndex.childrenOf(this.id); }
 	public get parent() { return this._context.actor(this._parentId); }
-	public set parent(value) { this.parentId = value && value.id || ZeroGuid; }
+	public set parent(value) { this.setParent(value); }
 	public get parentId() { return this._parentId; }
 	public set parentId(value) {
 		const parentActor = this.context.actor(value);
@@ -160,6 +189,7 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		if (this._parentId !== value) {
 			this._parentId = value;
 			this.actorChanged('parentId');
+			this.reindex();
 		}
 	}
 
@@ -236,7 +266,8 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 	}
 
 	/**
-	 * Creates a new actor hierarchy from the provided prefab.
+	 * Creates a new actor hierarchy from the provided prefab. The prefab's animation clips can be controlled
+	 * through [[animation]] on the root actor.
 	 * @param context The SDK context object.
 	 * @param options.prefabId The ID of a prefab asset to spawn.
 	 * @param options.actor The initial state of the root actor.
@@ -248,7 +279,8 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 	}): Actor;
 
 	/**
-	 * Creates a new actor hierarchy from the provided prefab.
+	 * Creates a new actor hierarchy from the provided prefab. The prefab's animation clips can be controlled
+	 * through [[animation]] on the root actor.
 	 * @param context The SDK context object.
 	 * @param options.prefab The prefab asset to spawn.
 	 * @param options.actor The initial state of the root actor.
@@ -260,7 +292,8 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 	}): Actor;
 
 	/**
-	 * Creates a new actor hierarchy from the provided prefab.
+	 * Creates a new actor hierarchy from the provided prefab. The prefab's animation clips can be controlled
+	 * through [[animation]] on the root actor.
 	 * @param context The SDK context object.
 	 * @param options.firstPrefabFrom An asset array containing at least one prefab.
 	 * @param options.actor The initial state of the root actor.
@@ -294,7 +327,8 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 
 	/**
 	 * Load a glTF model, and spawn the first prefab in the resulting assets. Equivalent
-	 * to using [[AssetContainer.loadGltf]] and [[Actor.CreateFromPrefab]].
+	 * to using [[AssetContainer.loadGltf]] and [[Actor.CreateFromPrefab]]. The glTF's animation clips can be
+	 * controlled through [[animation]] on the returned actor once it has been created.
 	 * @param container The asset container to load the glTF assets into
 	 * @param options.uri A URI to a .gltf or .glb file
 	 * @param options.colliderType The type of collider to add to each mesh actor
@@ -352,6 +386,59 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		}
 	}
 
+	/**
+	 * Creates a copy of this actor and all its descendants, with new ids. Transforms, appearance, lights, text,
+	 * colliders, rigid bodies, look-at targets and behaviors are copied, and the clones share the originals' collider
+	 * and behavior event handlers. The whole hierarchy is created on the host in a single operation, if the host
+	 * supports it, or an operation per actor otherwise. Actors created from the host library are copied as empty
+	 * actors.
+	 * @param options.actor Overrides for the initial state of the cloned root actor. By default the clone has the
+	 * same parent as this actor.
+	 * @param options.animations Whether to also re-create the animations defined with [[createAnimation]].
+	 * @returns The cloned root actor.
+	 */
+	public clone(options?: {
+		actor?: Partial<ActorLike>,
+		animations?: boolean
+	}): Actor {
+		return this.context.internal.cloneActor(this, options || {});
+	}
+
+	/**
+	 * Moves this actor to a new parent.
+	 * @param parent The new parent actor or actor id, or null to move the actor to the root of the app.
+	 * @param options.keepWorldPose Whether to adjust the local transform so the actor stays where it is in app space.
+	 * By default the local transform is kept, and the actor moves with its new parent.
+	 */
+	public setParent(parent: Actor | string, options?: { keepWorldPose?: boolean }) {
+		const worldMatrix = options && options.keepWorldPose ? this.internal.worldMatrix : undefined;
+		this.parentId = (typeof parent === 'string' ? parent : parent && parent.id) || ZeroGuid;
+		if (worldMatrix) {
+			const local = this.parent ?
+				worldMatrix.multiply(Matrix.Invert(this.parent.internal.worldMatrix)) :
+				worldMatrix;
+			const transform = this._transform.local;
+			local.decompose(transform.scale, transform.rotation, transform.position);
+		}
+	}
+
+	/**
+	 * Converts a point from this actor's local space to app space.
+	 * @param point The point, relative to this actor.
+	 */
+	public localToWorld(point: Vector3Like): Vector3 {
+		return Vector3.TransformCoordinates(new Vector3(point.x, point.y, point.z), this.internal.worldMatrix);
+	}
+
+	/**
+	 * Converts a point from app space to this actor's local space.
+	 * @param point The point, in app space.
+	 */
+	public worldToLocal(point: Vector3Like): Vector3 {
+		return Vector3.TransformCoordinates(
+			new Vector3(point.x, point.y, point.z), Matrix.Invert(this.internal.worldMatrix));
+	}
+
 	/**
 	 * Destroys the actor.
 	 */
@@ -377,6 +464,7 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		}
 		// Copying the new values will trigger an actor update and enable/update the light component.
 		this._light.copy(light);
+		this.reindex();
 	}
 
 	/**
@@ -397,6 +485,7 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		}
 		// Copying the new values will trigger an actor update and enable/update the rigid body component.
 		this._rigidBody.copy(rigidBody);
+		this.reindex();
 	}
 
 	/**
@@ -498,6 +587,7 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		}
 		// Copying the new values will trigger an actor update and enable/update the text component.
 		this._text.copy(text);
+		this.reindex();
 	}
 
 	/**
@@ -633,12 +723,43 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 	}
 
 	/**
-	 * Creates an animation on the actor.
-	 * @param animationName The name of the animation.
+	 * Creates an animation on the actor. Throws if any transform keyframes aren't in local space. Other invalid
+	 * keyframes, such as ones out of order or animating unsupported properties, are logged as errors and no animation
+	 * is created.
+	 * @param animationName The name of the animation. Replaces any animation of the same name on the actor.
 	 * @param options The animation keyframes, events, and other characteristics.
+	 * @returns A handle to control the animation and query its playback state, or undefined if the keyframes are
+	 * invalid.
+	 */
+	public createAnimation(animationName: string, options: CreateAnimationOptions): Animation {
+		return this.context.internal.createAnimation(this.id, animationName, options);
+	}
+
+	/**
+	 * Creates an animation moving the actor along a path, at a constant speed.
+	 * @param animationName The name of the animation. Replaces any animation of the same name on the actor.
+	 * @param path The path to follow, in the actor's parent space. Closed paths, ending where they start, can loop.
+	 * @param options The speed, orientation, and other characteristics of the animation.
+	 * @returns A handle to control the animation and query its playback state.
+	 */
+	public createPathAnimation(
+		animationName: string, path: Curve3 | Path3 | Vector3[], options: PathAnimationOptions
+	): Animation {
+		return this.createAnimation(animationName, {
+			keyframes: bakePath(path, options),
+			events: options.events,
+			wrapMode: options.wrapMode,
+			initialState: options.initialState
+		});
+	}
+
+	/**
+	 * Gets an animation created on the actor, or one of the animation clips of the prefab it was spawned from.
+	 * @param animationName The name of the animation.
+	 * @returns The animation, or undefined if there is none of that name.
 	 */
-	public createAnimation(animationName: string, options: CreateAnimationOptions) {
-		this.context.internal.createAnimation(this.id, animationName, options);
+	public animation(animationName: string): Animation {
+		return this.internal.animations[animationName];
 	}
 
 	/**
@@ -683,6 +804,20 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		this.setAnimationState(animationName, { time });
 	}
 
+	/**
+	 * Blend from one animation to another, e.g. from an idle clip to a walk clip, by fading the first one's weight
+	 * out while fading the second one's in. The animation faded in is enabled, and the one faded out is disabled once
+	 * the fade completes. Both should be on the same layer.
+	 * @param from The name of the animation to fade out.
+	 * @param to The name of the animation to fade in.
+	 * @param duration The length of the fade, in seconds.
+	 * @returns A promise that resolves when the fade completes, or early if either animation is faded again in the
+	 * meantime or the actor is destroyed. Nothing is faded if either animation doesn't exist.
+	 */
+	public crossFade(from: string, to: string, duration: number): Promise<void> {
+		return this.internal.crossFade(from, to, duration);
+	}
+
 	/**
 	 * (Advanced) Sets the time, speed, and enabled state of an animation.
 	 * @param animationName The name of the animation.
@@ -695,14 +830,16 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 
 	/**
 	 * Animate actor properties to the given value, following the specified animation curve. Actor transform
-	 * is the only animatable property at the moment. Other properties such as light color may become animatable
-	 * in the future.
+	 * is the only property animateTo can interpolate. To animate light, text, material or media properties, use
+	 * [[createAnimation]].
 	 * @param value The desired final state of the animation.
 	 * @param duration The length of the interpolation (in seconds).
 	 * @param curve The cubic-bezier curve parameters. @see AnimationEaseCurves for predefined values.
+	 * @returns A promise that resolves when the interpolation finishes or is disabled, or the actor is destroyed.
+	 * Use a [[Timeline]] to sequence several interpolations.
 	 */
-	public animateTo(value: Partial<ActorLike>, duration: number, curve: number[]) {
-		this.context.internal.animateTo(this.id, value, duration, curve);
+	public animateTo(value: Partial<ActorLike>, duration: number, curve: number[]): Promise<void> {
+		return this.context.internal.animateTo(this.id, value, duration, curve);
 	}
 
 	/**
@@ -723,6 +860,23 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		return namedChildren;
 	}
 
+	/**
+	 * Finds the first descendant actor matching a selector.
+	 * @param selector A CSS-like selector. See [[Context.queryAll]] for the syntax.
+	 * @returns The first matching actor, or undefined if there is none.
+	 */
+	public query(selector: string): Actor {
+		return this.queryAll(selector)[0];
+	}
+
+	/**
+	 * Finds all descendant actors matching a selector.
+	 * @param selector A CSS-like selector. See [[Context.queryAll]] for the syntax.
+	 */
+	public queryAll(selector: string): Actor[] {
+		return this.context.internal.actorIndex.query(selector, this);
+	}
+
 	/**
 	 * Actor Events
 	 */
@@ -745,6 +899,38 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		return this;
 	}
 
+	/**
+	 * Set an event handler for the events of an animation, raised as its playback passes their times. Events are
+	 * raised in the order they're passed, including when the animation loops, ping-pongs or plays backwards.
+	 * @param animationName The name of the animation to watch.
+	 * @param handler The handler to call with each event passed.
+	 */
+	public onAnimationEvent(animationName: string, handler: (event: AnimationEvent) => any): this {
+		this.emitter.addListener('animation-event', (name: string, event: AnimationEvent) => {
+			if (name === animationName) {
+				handler(event);
+			}
+		});
+		return this;
+	}
+
+	/**
+	 * Set an event handler for changes to this actor's properties, whether made by the app or reported by a client.
+	 * Changes reported together, such as a client's physics update, are passed to the handler in a single event.
+	 * @param path The property to watch, e.g. `transform.app.position`. The handler is also called for changes to
+	 * properties nested under it. Pass an empty string to watch every property.
+	 * @param handler The handler to call with the paths of the changed properties.
+	 */
+	public onChanged(path: string, handler: (event: ChangeEvent<Actor>) => any): this {
+		this.emitter.addListener('changed', (event: ChangeEvent<Actor>) => {
+			const paths = event.paths.filter(changed => pathStartsWith(changed, path));
+			if (paths.length) {
+				handler({ ...event, paths });
+			}
+		});
+		return this;
+	}
+
 	public copy(from: Partial<ActorLike>): this {
 		// Pause change detection while we copy the values into the actor.
 		const wasObserving = this.internal.observing;
@@ -752,9 +938,18 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 
 		if (!from) return this;
 		if (from.id) this._id = from.id;
-		if (from.parentId) this._parentId = from.parentId;
-		if (from.name) this._name = from.name;
-		if (from.tag) this._tag = from.tag;
+		if (from.parentId && from.parentId !== this._parentId) {
+			this._parentId = from.parentId;
+			this.actorChanged('parentId');
+		}
+		if (from.name && from.name !== this._name) {
+			this._name = from.name;
+			this.actorChanged('name');
+		}
+		if (from.tag && from.tag !== this._tag) {
+			this._tag = from.tag;
+			this.actorChanged('tag');
+		}
 		if (from.exclusiveToUser || from.parentId) {
 			this._exclusiveToUser = this.parent && this.parent.exclusiveToUser || from.exclusiveToUser;
 		}
@@ -766,13 +961,18 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 		if (from.collider) this._setCollider(from.collider);
 		if (from.text) this.enableText(from.text);
 		if (from.lookAt) this.enableLookAt(from.lookAt.actorId, from.lookAt.mode);
-		if (from.grabbable !== undefined) this._grabbable = from.grabbable;
+		if (from.grabbable !== undefined && from.grabbable !== this._grabbable) {
+			this._grabbable = from.grabbable;
+			this.actorChanged('grabbable');
+		}
 
 		this.internal.observing = wasObserving;
+		this.reindex();
 		return this;
 	}
 
 	public toJSON() {
+		this.internal.sampleAnimations();
 		return {
 			id: this._id,
 			parentId: this._parentId,
@@ -811,11 +1011,15 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 
 	/** @hidden */
 	public actorChanged = (...path: string[]) => {
+		if (path[0] === 'parentId' || path[0] === 'transform' && path[1] === 'local') {
+			this.internal.invalidateWorldMatrix();
+		}
 		if (this.internal.observing) {
 			this.internal.patch = this.internal.patch || {} as ActorLike;
 			readPath(this, this.internal.patch, ...path);
 			this.context.internal.incrementGeneration();
 		}
+		this.context.internal.recordChange(this, path.join('.'));
 	}
 
 	/**
@@ -879,5 +1083,10 @@ export class Actor implements ActorLike, Patchable<ActorLike> {
 			// Trigger notifications for every observed leaf node to ensure we get all values in the initial patch.
 			triggerNotificationsNow: true
 		});
+		this.reindex();
+	}
+
+	private reindex() {
+		this.context.internal.actorIndex.update(this);
 	}
 }
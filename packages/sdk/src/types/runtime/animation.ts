@@ -0,0 +1,161 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import {
+	AnimationBlendMode,
+	AnimationKeyframe,
+	AnimationKeyframeValue,
+	AnimationWrapMode,
+	CreateAnimationOptions,
+	SetAnimationStateOptions
+} from '../..';
+import { ExportedPromise } from '../../utils/exportedPromise';
+import sampleKeyframes from '../../utils/sampleKeyframes';
+import { AnimationClock } from '../internal/animationClock';
+import { Actor } from './actor';
+
+/**
+ * An Animation is a handle to a keyframe animation created with [[Actor.createAnimation]]. It controls playback, and
+ * tracks the animation's state as the app changes it and clients report it, so the current time can be read without
+ * a round trip to the clients.
+ */
+export class Animation {
+	private clock: AnimationClock;
+	private keyframes: AnimationKeyframe[];
+	private finishedPromises: ExportedPromise[] = [];
+	/** The time the animation stopped at, if its actor hasn't been posed there yet. */
+	private stoppedTime: number;
+
+	/** The length of the animation, i.e. the time of its last keyframe, in seconds. */
+	public get length() { return this.clock.duration; }
+	/** How the animation behaves when it reaches the end. */
+	public get wrapMode(): AnimationWrapMode { return this.clock.wrapMode; }
+	/** The current playback time, in seconds, estimated from the animation's last known state. */
+	public get time() { return this.clock.state.time; }
+	/** The playback speed. Negative values play the animation backward. */
+	public get speed() { return this.clock.state.speed; }
+	/** Whether the animation is playing. */
+	public get enabled() { return this.clock.state.enabled; }
+	/** How much the animation contributes to the final pose, from 0 to 1. */
+	public get weight() { return this.clock.state.weight; }
+	/** The layer the animation is blended on. */
+	public get layer() { return this.clock.state.layer; }
+	/** How the animation combines with lower layers. */
+	public get blendMode(): AnimationBlendMode { return this.clock.state.blendMode; }
+
+	/**
+	 * @hidden
+	 */
+	constructor(public readonly actor: Actor, public readonly name: string, options: CreateAnimationOptions) {
+		this.keyframes = options.keyframes;
+		this.clock = new AnimationClock(options,
+			event => this.actor.emitter.emit('animation-event', this.name, event),
+			time => {
+				this.stoppedTime = time;
+				this.actor.internal.resampleAnimations();
+				this.resolveFinished();
+			});
+		this.actor.internal.resampleAnimations();
+	}
+
+	/**
+	 * Start or resume playback from the current time.
+	 */
+	public play() {
+		this.setState({ enabled: true });
+	}
+
+	/**
+	 * Pause playback at the current time.
+	 */
+	public pause() {
+		this.setState({ enabled: false });
+	}
+
+	/**
+	 * Jump to the given time.
+	 * @param time The desired animation time, in seconds. A negative value seeks to the end of the animation.
+	 */
+	public seek(time: number) {
+		this.setState({ time });
+	}
+
+	/**
+	 * Stop playback and rewind to the start.
+	 */
+	public stop() {
+		this.setState({ enabled: false, time: 0 });
+	}
+
+	/**
+	 * Sets the time, speed, and enabled state of the animation.
+	 * @param state The values to apply. Only the values provided will be applied.
+	 */
+	public setState(state: SetAnimationStateOptions) {
+		this.actor.setAnimationState(this.name, state);
+	}
+
+	/**
+	 * Wait for the animation to stop playing, either because it ran to its end or because it was paused or stopped.
+	 * @returns A promise that resolves once the animation is disabled, immediately if it isn't playing, or when the
+	 * animation is replaced or its actor is destroyed.
+	 */
+	public finished(): Promise<void> {
+		if (!this.enabled) {
+			return Promise.resolve();
+		}
+		return new Promise<void>((resolve, reject) => this.finishedPromises.push({ resolve, reject }));
+	}
+
+	/**
+	 * Compute the animated values at a time, the way clients interpolate the keyframes.
+	 * @param time The animation time, in seconds. Defaults to the current playback time.
+	 * @returns The value of every property the animation animates.
+	 */
+	public sample(time = this.time): AnimationKeyframeValue {
+		return sampleKeyframes(this.keyframes, time);
+	}
+
+	/**
+	 * @hidden
+	 * Move the actor to where the animation has it at the current time, while it's playing, or once more to where it
+	 * stopped. Changes are not sent to clients, which are animating the actor themselves.
+	 */
+	public _apply() {
+		const state = this.clock.state;
+		const time = state.enabled ? state.time : this.stoppedTime;
+		this.stoppedTime = undefined;
+		if (time === undefined) {
+			return;
+		}
+		const value = this.sample(time);
+		const internal = this.actor.context.internal;
+		internal.collectChanges(null, () => this.actor.copy({
+			transform: value.transform,
+			light: this.actor.light && value.light,
+			text: this.actor.text && value.text,
+		}));
+	}
+
+	/** @hidden */
+	public _setState(state: SetAnimationStateOptions) {
+		this.clock.setState(state);
+		this.actor.internal.resampleAnimations();
+	}
+
+	/** @hidden */
+	public _destroy() {
+		this.clock.stop();
+		this.resolveFinished();
+	}
+
+	private resolveFinished() {
+		const promises = this.finishedPromises;
+		this.finishedPromises = [];
+		for (const promise of promises) {
+			promise.resolve();
+		}
+	}
+}
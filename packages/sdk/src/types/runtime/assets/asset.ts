@@ -3,6 +3,7 @@
  * Licensed under the MIT License.
  */
 
+import events from 'events';
 import {
 	AssetContainer,
 	Material,
@@ -18,7 +19,8 @@ import {
 	VideoStream,
 	VideoStreamLike
 } from '.';
-import { Actor } from '..';
+import { Actor, ChangeEvent } from '..';
+import pathStartsWith from '../../../utils/pathStartsWith';
 
 /**
  * Instructions for how to load an asset.
@@ -77,8 +79,12 @@ export abstract class Asset implements AssetLike {
 	private _name: string;
 	private _source: AssetSource;
 	private _loadedPromise: Promise<void>;
+	private _emitter = new events.EventEmitter();
 	// tslint:enable:variable-name
 
+	/** @hidden */
+	public get emitter() { return this._emitter; }
+
 	/** @inheritdoc */
 	public get id() { return this._id; }
 
@@ -98,6 +104,8 @@ export abstract class Asset implements AssetLike {
 	public get texture(): Texture { return null; }
 	/** @inheritdoc */
 	public get sound(): Sound { return null; }
+	/** @inheritdoc */
+	public get videoStream(): VideoStream { return null; }
 
 	/** A promise that resolves when the asset is finished loading */
 	public get created() { return this._loadedPromise; }
@@ -111,14 +119,43 @@ export abstract class Asset implements AssetLike {
 		this._source = def.source;
 	}
 
+	/**
+	 * Set an event handler for changes to this asset's properties, whether made by the app or reported by a client.
+	 * @param path The property to watch, e.g. `material.color`. The handler is also called for changes to properties
+	 * nested under it. Pass an empty string to watch every property.
+	 * @param handler The handler to call with the paths of the changed properties.
+	 */
+	public onChanged(path: string, handler: (event: ChangeEvent<Asset>) => any): this {
+		this.emitter.addListener('changed', (event: ChangeEvent<Asset>) => {
+			const paths = event.paths.filter(changed => pathStartsWith(changed, path));
+			if (paths.length) {
+				handler({ ...event, paths });
+			}
+		});
+		return this;
+	}
+
+	/**
+	 * Break references to this asset, and unload it to free memory, leaving the rest of its container loaded. Only
+	 * assets created by the app can be unloaded on their own. Assets loaded from glTF files are unloaded with their
+	 * container. For assets shared between containers, this releases the latest reference a container took to it, and
+	 * the asset is only unloaded once every reference has been released. See [[AssetContainerOptions.shareAssets]].
+	 */
+	public unload() {
+		this.container.unloadAssets([this]);
+	}
+
 	/** @hidden */
 	public addReference(ref: Actor | Asset) {
 		this.references.add(ref);
+		this.container.assetReferencesChanged(this, this.references.size);
 	}
 
 	/** @hidden */
 	public clearReference(ref: Actor | Asset) {
-		this.references.delete(ref);
+		if (this.references.delete(ref)) {
+			this.container.assetReferencesChanged(this, this.references.size);
+		}
 	}
 
 	/** @hidden */
@@ -0,0 +1,346 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { Asset, AssetContainer, GltfInfo, Mesh, MeshLike } from '.';
+import { Context } from '..';
+import { log } from '../../../log';
+import fetchBuffer from '../../../utils/fetchBuffer';
+import parseGltf from '../../../utils/parseGltf';
+import resolveJsonValues from '../../../utils/resolveJsonValues';
+import { WebHost } from '../../../webHost';
+
+/** The assets created for a shared definition in one context. */
+type SharedAssets = {
+	/** The definition the assets were created for. */
+	entry: CatalogEntry;
+	/** The context the assets were created in. */
+	context: Context;
+	/** The hidden container the assets were created in, so they keep ids of the context's own. */
+	owner: AssetContainer;
+	/** The assets: one for a mesh or material, or those of a glTF file once it's loaded. */
+	assets: Asset[];
+	/** Resolves once a glTF file's assets are loaded. */
+	loaded: Promise<Asset[]>;
+	/** The containers using the assets, once for every time they asked for them. */
+	users: AssetContainer[];
+};
+
+/** A definition shared by the containers of every context. */
+type CatalogEntry = {
+	/** The kind and contents of the definition. */
+	key: string;
+	/** The mesh properties a client reported for the definition, to fill in for meshes created from it later. */
+	reportedMesh?: Partial<MeshLike>;
+	/** The assets created for the definition in each context using it. */
+	contexts: Map<Context, SharedAssets>;
+};
+
+/** A glTF file known to the catalog, by its resolved URI. */
+type GltfEntry = {
+	/** The pending or finished read of the file, if it's been inspected. */
+	info?: Promise<GltfInfo>;
+	/** The contents of the file, once they've been read successfully. */
+	result?: GltfInfo;
+	/** How many loaded containers use the file. */
+	refCount: number;
+};
+
+/**
+ * A process-wide catalog of assets, shared by every context the app serves. glTF files are only read app-side when
+ * inspected, and only once while any container has them loaded. Containers created with the `shareAssets` option
+ * reuse identical primitive meshes, materials and glTF files instead of creating or loading duplicates. Each session's
+ * client still needs its own copy of an asset, with an id of that session's, so a session loads a shared glTF file once
+ * however many of its containers load it, and what one session's client reports about a shared mesh is known to
+ * later sessions as soon as they create it.
+ */
+export class AssetCatalog {
+	/** The glTF files loaded into containers or being inspected, by resolved URI. */
+	private static gltfs: { [uri: string]: GltfEntry } = {};
+	/** The shared definitions, by their kind and contents, while any context uses them. */
+	private static entries = new Map<string, CatalogEntry>();
+	/** The definitions each shared asset was created for. */
+	private static sharedAssets = new WeakMap<Asset, SharedAssets>();
+	/** The contexts whose shared assets are forgotten when they stop. */
+	private static contexts = new WeakSet<Context>();
+
+	/**
+	 * Read the node hierarchy, mesh bounds, materials and animations of a glTF file app-side, without loading it on a
+	 * client. Files loaded into any container, in any session, are only downloaded once, as are files being inspected
+	 * at the same time.
+	 * @param source The URI of a .gltf or .glb file, or its contents. Relative URIs are resolved against the app's
+	 * base URL, as clients resolve them.
+	 * @returns A promise that resolves with the contents of the file, or rejects if it can't be downloaded or isn't a
+	 * valid glTF 2.0 file.
+	 */
+	public static inspectGltf(source: string | Buffer): Promise<GltfInfo> {
+		if (typeof source !== 'string') {
+			try {
+				return Promise.resolve(parseGltf(source));
+			} catch (e) {
+				return Promise.reject(e);
+			}
+		}
+		return AssetCatalog.readGltf(WebHost.resolveUrl(source));
+	}
+
+	/**
+	 * @hidden
+	 * Record that a container has loaded a glTF file, so its contents are kept once known, until [[releaseGltf]] is
+	 * called as often as this. Doesn't read the file.
+	 * @param uri The URI of the file.
+	 * @param info The contents of the file, if they're already known.
+	 */
+	public static retainGltf(uri: string, info?: GltfInfo) {
+		uri = WebHost.resolveUrl(uri);
+		const entry = AssetCatalog.gltfs[uri] = AssetCatalog.gltfs[uri] || { refCount: 0 };
+		if (info && !entry.result) {
+			entry.info = Promise.resolve(info);
+			entry.result = info;
+		}
+		entry.refCount++;
+	}
+
+	/**
+	 * @hidden
+	 * Release a reference to a glTF file taken with [[retainGltf]], and forget its contents once none are left.
+	 * @param uri The URI of the file.
+	 */
+	public static releaseGltf(uri: string) {
+		uri = WebHost.resolveUrl(uri);
+		const entry = AssetCatalog.gltfs[uri];
+		if (entry && --entry.refCount <= 0) {
+			delete AssetCatalog.gltfs[uri];
+		}
+	}
+
+	/**
+	 * @hidden
+	 * Get the shared asset of a context matching a definition, creating it if there isn't one yet, and add it to a
+	 * container. Meshes are given the properties clients reported for the definition in earlier sessions.
+	 * @param container The container requesting the asset.
+	 * @param kind The type of asset, e.g. `material`.
+	 * @param definition The asset's definition. Assets with equal definitions are shared, whatever their names.
+	 * @param create Creates the asset in the given container.
+	 */
+	public static acquire<T extends Asset>(
+		container: AssetContainer, kind: string, definition: any, create: (owner: AssetContainer) => T
+	): T {
+		const key = kind + ':' + stableStringify(resolveJsonValues(definition));
+		const shared = AssetCatalog.share(container.context, key, (owner, entry) => {
+			const asset = create(owner);
+			if (asset instanceof Mesh) {
+				if (entry.reportedMesh) {
+					container.context.internal.collectChanges(null, () => asset.copy({ mesh: entry.reportedMesh }));
+				}
+				asset.created
+					.then(() => entry.reportedMesh = {
+						vertexCount: asset.vertexCount,
+						triangleCount: asset.triangleCount,
+						boundingBoxDimensions: asset.boundingBoxDimensions.toJSON(),
+						boundingBoxCenter: asset.boundingBoxCenter.toJSON()
+					})
+					.catch(err => log.error('app', err));
+			}
+			return [asset];
+		});
+		AssetCatalog.use(container, shared);
+		return shared.assets[0] as T;
+	}
+
+	/**
+	 * @hidden
+	 * Get the shared assets of a context loaded from a glTF file, loading them if they aren't loaded or loading yet,
+	 * and add them to a container.
+	 * @param container The container requesting the assets.
+	 * @param uri The URI of the file.
+	 * @param colliderType The shape of the generated prefab collider.
+	 * @param load Loads the file into the given container.
+	 */
+	public static async acquireGltf(
+		container: AssetContainer, uri: string, colliderType: 'box' | 'mesh',
+		load: (owner: AssetContainer) => Promise<Asset[]>
+	): Promise<Asset[]> {
+		const key = `gltf:${colliderType || ''}:${WebHost.resolveUrl(uri)}`;
+		const shared = AssetCatalog.share(container.context, key, load);
+		await shared.loaded;
+		AssetCatalog.use(container, shared);
+		return shared.assets;
+	}
+
+	/**
+	 * @hidden
+	 * Release a container's reference to a shared asset, taken when it acquired the asset, and remove the asset from
+	 * it if that was its last. The asset is unloaded once no container has a reference left.
+	 * @param container The container releasing the asset, or the asset's own container to release the latest
+	 * reference of any container.
+	 * @param asset The shared asset.
+	 */
+	public static release(container: AssetContainer, asset: Asset) {
+		const shared = AssetCatalog.sharedAssets.get(asset);
+		if (!shared || !shared.users.length) {
+			return;
+		}
+		const users = shared.users;
+		const user = users.includes(container) ? container : users[users.length - 1];
+		users.splice(users.lastIndexOf(user), 1);
+		// Unload the assets while they can still be found in the container, so actors using them let go.
+		if (!users.length) {
+			AssetCatalog.unshare(shared);
+		}
+		if (!users.includes(user)) {
+			user.removeSharedAssets(shared.assets);
+		}
+	}
+
+	/**
+	 * @hidden
+	 * Release every reference to shared assets a container holds.
+	 * @param container The container being unloaded.
+	 */
+	public static releaseAll(container: AssetContainer) {
+		for (const entry of [...AssetCatalog.entries.values()]) {
+			const shared = entry.contexts.get(container.context);
+			if (shared && shared.users.includes(container)) {
+				shared.users = shared.users.filter(user => user !== container);
+				if (!shared.users.length) {
+					AssetCatalog.unshare(shared);
+				}
+				container.removeSharedAssets(shared.assets);
+			}
+		}
+	}
+
+	/**
+	 * @hidden
+	 * Whether an asset is shared by the containers of its context.
+	 */
+	public static isShared(asset: Asset) {
+		return AssetCatalog.sharedAssets.has(asset);
+	}
+
+	/** Get the shared assets of a context for a definition, creating them in a hidden container if there aren't any. */
+	private static share(
+		context: Context, key: string, create: (owner: AssetContainer, entry: CatalogEntry) => Asset[] | Promise<Asset[]>
+	) {
+		let entry = AssetCatalog.entries.get(key);
+		if (!entry) {
+			entry = { key, contexts: new Map() };
+			AssetCatalog.entries.set(key, entry);
+		}
+		const existing = entry.contexts.get(context);
+		if (existing) {
+			return existing;
+		}
+
+		if (!AssetCatalog.contexts.has(context)) {
+			AssetCatalog.contexts.add(context);
+			context.onStopped(() => AssetCatalog.forget(context));
+		}
+		// The hidden container isn't one of the context's, so it isn't saved in snapshots or counted in stats twice.
+		const owner = new AssetContainer(context);
+		context.internal.assetContainers.delete(owner);
+		const created = create(owner, entry);
+		const shared: SharedAssets = {
+			entry,
+			context,
+			owner,
+			assets: [],
+			loaded: Promise.resolve(created),
+			users: []
+		};
+		entry.contexts.set(context, shared);
+		const register = (assets: Asset[]) => {
+			shared.assets = assets;
+			for (const asset of assets) {
+				AssetCatalog.sharedAssets.set(asset, shared);
+			}
+		};
+		if (Array.isArray(created)) {
+			register(created);
+		} else {
+			// Let the next container to ask try again if the assets fail to load.
+			created.then(register, () => AssetCatalog.unshare(shared));
+		}
+		return shared;
+	}
+
+	/** Add a reference to shared assets to a container, and list them among its assets. */
+	private static use(container: AssetContainer, shared: SharedAssets) {
+		try {
+			container.addSharedAssets(shared.assets, shared.owner.gltfLoads[0]);
+		} catch (e) {
+			// The container was unloaded while a shared glTF file loaded.
+			if (!shared.users.length) {
+				AssetCatalog.unshare(shared);
+			}
+			throw e;
+		}
+		shared.users.push(container);
+	}
+
+	/** Forget shared assets no container uses any more, and unload them. */
+	private static unshare(shared: SharedAssets) {
+		const entry = shared.entry;
+		if (entry.contexts.get(shared.context) !== shared) {
+			return;
+		}
+		entry.contexts.delete(shared.context);
+		if (!entry.contexts.size) {
+			AssetCatalog.entries.delete(entry.key);
+		}
+		for (const asset of shared.assets) {
+			AssetCatalog.sharedAssets.delete(asset);
+		}
+		shared.owner.unload();
+	}
+
+	/** Forget the shared assets of a context that has stopped. */
+	private static forget(context: Context) {
+		for (const entry of [...AssetCatalog.entries.values()]) {
+			entry.contexts.delete(context);
+			if (!entry.contexts.size) {
+				AssetCatalog.entries.delete(entry.key);
+			}
+		}
+	}
+
+	/** Get the contents of a glTF file, downloading and parsing it if it isn't being read already. */
+	private static readGltf(uri: string) {
+		const entry = AssetCatalog.gltfs[uri] = AssetCatalog.gltfs[uri] || { refCount: 0 };
+		if (!entry.info) {
+			const info = entry.info = fetchBuffer(uri).then(parseGltf);
+			// Keep the contents of files that are loaded, and forget the rest once they're read. Failed reads are
+			// reported to the callers waiting on them, and retried by the next inspection.
+			const settled = () => {
+				if (AssetCatalog.gltfs[uri] === entry && !entry.refCount) {
+					delete AssetCatalog.gltfs[uri];
+				}
+			};
+			info.then(result => {
+				entry.result = result;
+				settled();
+			}, () => {
+				if (entry.info === info) {
+					entry.info = undefined;
+				}
+				settled();
+			});
+		}
+		return entry.info;
+	}
+}
+
+/** Serialize a JSON value with the keys of its objects in order, so equal values serialize equally. */
+function stableStringify(value: any): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`;
+	} else if (value && typeof value === 'object') {
+		return `{${Object.keys(value).sort()
+			.filter(key => value[key] !== undefined)
+			.map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`)
+			.join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
@@ -6,20 +6,51 @@
 import UUID from 'uuid/v4';
 
 import {
-	Asset, AssetSource,
+	Asset, AssetCatalog, AssetLike, AssetSource,
+	GltfInfo,
 	Material, MaterialLike,
 	Mesh, MeshLike,
 	Prefab,
+	PreloadedAssets, PreloadItem, PreloadManifest, PreloadOptions, PreloadProgress,
 	Sound, SoundLike,
-	Texture, TextureLike,
+	Texture, TextureLike, TexturePixels,
 	VideoStream, VideoStreamLike
 } from '.';
 import { Context } from '..';
 import { PrimitiveDefinition, PrimitiveShape, Vector3Like } from '../../..';
 import { log } from '../../../log';
+import encodePng from '../../../utils/encodePng';
+import parseGltf from '../../../utils/parseGltf';
 import resolveJsonValues from '../../../utils/resolveJsonValues';
 import * as Payloads from '../../network/payloads';
 
+/**
+ * Options for an [[AssetContainer]].
+ */
+export type AssetContainerOptions = {
+	/**
+	 * Unload the materials, textures and meshes created in this container automatically once no actor or material
+	 * has used them for `autoUnloadDelay` seconds. Assets are only unloaded after they've been used and released, and
+	 * assets loaded from glTF files are never unloaded automatically. Off by default.
+	 */
+	autoUnload?: boolean;
+	/**
+	 * How long an asset must go unused before it's unloaded automatically, in seconds. Defaults to 30.
+	 */
+	autoUnloadDelay?: number;
+	/**
+	 * Reuse the primitive meshes, materials and glTF files of other containers in the same context with this option,
+	 * rather than creating or loading duplicates. Creating a mesh or material with the same definition as an existing
+	 * shared one returns the existing asset, whatever its name, so changes to a shared material affect every container
+	 * using it. Loading a glTF file by URL that's already loaded or loading with the same collider type returns the
+	 * same assets, without asking the client to load it again. Shared assets are listed in every container using
+	 * them. Each time a container gets a shared asset counts as a reference to it, which [[Asset.unload]] or
+	 * unloading the container releases, and the asset is only unloaded once every reference has been released. Off by
+	 * default. See [[AssetCatalog]].
+	 */
+	shareAssets?: boolean;
+};
+
 /**
  * The root object of the MRE SDK's asset system. Once you create an AssetContainer,
  * you can create new materials, textures, or sounds from scratch, or load glTF
@@ -29,11 +60,20 @@ export class AssetContainer {
 	// tslint:disable:variable-name
 	private _id: string;
 	private _assets: { [id: string]: Asset } = {};
+	private _gltfLoads: Array<{ uri: string, colliderType?: 'box' | 'mesh' }> = [];
+	private _hostedBuffers: string[] = [];
 	// tslint:enable:variable-name
+	private unloadTimers = new Map<Asset, NodeJS.Timer>();
 
 	/** @hidden */
 	public get id() { return this._id; }
 
+	/** @hidden */
+	public get gltfLoads() { return this._gltfLoads; }
+
+	/** @hidden */
+	public get hostedBuffers() { return this._hostedBuffers; }
+
 	/** A mapping of asset IDs to assets in this container */
 	public get assetsById() { return Object.freeze({ ...this._assets }); }
 	/** A list of all assets in this container */
@@ -49,8 +89,12 @@ export class AssetContainer {
 	/** A list of all textures in this container */
 	public get textures() { return this.assets.filter(a => a instanceof Texture) as Texture[]; }
 
-	/** Create a new asset container */
-	public constructor(public context: Context) {
+	/**
+	 * Create a new asset container
+	 * @param context The context to load assets into.
+	 * @param options How the container manages its assets.
+	 */
+	public constructor(public context: Context, private options: AssetContainerOptions = {}) {
 		this._id = UUID();
 		context.internal.assetContainers.add(this);
 	}
@@ -61,6 +105,10 @@ export class AssetContainer {
 	 * @param definition The initial material properties
 	 */
 	public createMaterial(name: string, definition: Partial<MaterialLike>): Material {
+		if (this.options.shareAssets && this._assets) {
+			return AssetCatalog.acquire(this, 'material', definition,
+				shared => shared.createMaterial(name, definition));
+		}
 		const mat = new Material(this, {
 			id: UUID(),
 			name,
@@ -85,6 +133,26 @@ export class AssetContainer {
 		return tex;
 	}
 
+	/**
+	 * Generate a new texture asset from pixels in memory, e.g. a QR code or a scoreboard. The pixels are encoded as a
+	 * PNG file and served by the context's [[BufferHost]] under a URL derived from their content, until the texture or
+	 * its container is unloaded, or its pixels are replaced with [[Texture.setPixels]]. The PNG is only held in this
+	 * process's memory, so the URL isn't served by other instances of the app, nor after a restart. Snapshots taken
+	 * with [[Context.saveSnapshot]] include the PNG itself, and serve it again when restored.
+	 * @param name The new texture's name
+	 * @param pixels The texture's size and pixels.
+	 * @param definition The initial texture properties. The `uri` and `resolution` properties are set from the pixels.
+	 */
+	public createTextureFromPixels(
+		name: string, pixels: TexturePixels, definition: Partial<TextureLike> = {}
+	): Texture {
+		return this.createTexture(name, {
+			...definition,
+			uri: this.hostPixels(pixels),
+			resolution: { x: pixels.width, y: pixels.height }
+		});
+	}
+
 	/**
 	 * Load an audio file and generate a new sound asset
 	 * @param name The new sound's name
@@ -216,6 +284,10 @@ export class AssetContainer {
 	 * @param definition A description of the desired mesh
 	 */
 	public createPrimitiveMesh(name: string, definition: PrimitiveDefinition): Mesh {
+		if (this.options.shareAssets && this._assets) {
+			return AssetCatalog.acquire(this, 'mesh', definition,
+				shared => shared.createPrimitiveMesh(name, definition));
+		}
 		const mesh = new Mesh(this, {
 			id: UUID(),
 			name,
@@ -228,62 +300,377 @@ export class AssetContainer {
 	}
 
 	/**
-	 * Load the assets in a glTF file by URL, and this container with the result.
-	 * @param uri The URI to a glTF model.
+	 * Load the assets in a glTF file by URL, and this container with the result. The app reads the file itself while
+	 * the client loads it, so the vertex counts and bounds of the loaded meshes and the actor counts of the prefabs
+	 * are filled in where the client didn't report them, and [[inspectGltf]] returns the rest of its contents without
+	 * downloading it again. Files the app can't read are still loaded, without those details.
+	 * @param uri The URI to a glTF model. Relative URIs are resolved against the app's base URL.
 	 * @param colliderType The shape of the generated prefab collider.
 	 * @returns A promise that resolves with the list of loaded assets.
 	 */
-	public async loadGltf(uri: string, colliderType?: 'box' | 'mesh'): Promise<Asset[]> {
+	public loadGltf(uri: string, colliderType?: 'box' | 'mesh'): Promise<Asset[]> {
+		if (this.options.shareAssets && this._assets) {
+			return AssetCatalog.acquireGltf(this, uri, colliderType,
+				owner => owner.loadGltfWithInfo(uri, colliderType));
+		}
+		return this.loadGltfWithInfo(uri, colliderType);
+	}
+
+	/**
+	 * Load the assets in a glTF file held in memory, e.g. one generated with `gltf-gen`, into this container. The
+	 * buffer is served by the context's [[BufferHost]] under a URL derived from its content, for as long as a
+	 * container that loaded it remains loaded. Only this process serves it, so the URL stops working once the
+	 * containers are unloaded or the app restarts. To bring the assets back after that, load the buffer again, or
+	 * restore a snapshot; [[Context.saveSnapshot]] saves the contents of the file rather than its URL.
+	 * @param buffer The contents of a .glb file, or of a .gltf file with its resources embedded.
+	 * @param colliderType The shape of the generated prefab collider.
+	 * @returns A promise that resolves with the list of loaded assets. Rejects without involving any client if the
+	 * buffer isn't a valid glTF 2.0 file.
+	 */
+	public async loadGltfFromBuffer(buffer: Buffer, colliderType?: 'box' | 'mesh'): Promise<Asset[]> {
 		if (!this._assets) {
 			throw new Error("Cannot load new assets into an unloaded container!");
 		}
 
-		const source = {
-			containerType: 'gltf',
-			uri
-		} as AssetSource;
+		// Invalid files are caught before any client is involved.
+		const info = parseGltf(buffer);
+		const uri = this.hostBuffer(buffer, buffer.slice(0, 4).toString('ascii') === 'glTF' ? '.glb' : '.gltf');
+		try {
+			return await this.loadGltfWithInfo(uri, colliderType, info);
+		} catch (e) {
+			this._hostedBuffers.splice(this._hostedBuffers.lastIndexOf(uri), 1);
+			this.context.internal.bufferHost.releaseBuffer(uri);
+			throw e;
+		}
+	}
 
-		const payload = {
-			type: 'load-assets',
-			containerId: this.id,
-			source,
-			colliderType
-		} as Payloads.LoadAssets;
+	/**
+	 * Read the node hierarchy, mesh bounds, materials and animations of a glTF file app-side, without loading it on a
+	 * client. Useful for laying out actors, sizing colliders or validating files before they're spawned, or before any
+	 * client has joined. Same as [[AssetCatalog.inspectGltf]], so files loaded into any container are only downloaded
+	 * once, however often they're inspected.
+	 * @param source The URI of a .gltf or .glb file, or its contents. Relative URIs are resolved against the app's base
+	 * URL. External buffers aren't needed, and aren't downloaded.
+	 * @returns A promise that resolves with the contents of the file, or rejects if it can't be downloaded or isn't a
+	 * valid glTF 2.0 file.
+	 */
+	public inspectGltf(source: string | Buffer): Promise<GltfInfo> {
+		return AssetCatalog.inspectGltf(source);
+	}
 
-		const response = await this.sendPayloadAndGetReply<Payloads.LoadAssets, Payloads.AssetsLoaded>(payload);
-		if (response.failureMessage) {
-			throw new Error(response.failureMessage);
+	/**
+	 * Load a set of glTF files, textures, sounds and video streams together, e.g. behind a loading screen.
+	 * @param manifest The assets to load, by the names to give them.
+	 * @param options How to report progress and handle failures.
+	 * @returns A promise that resolves with the loaded assets by name once every entry has loaded, or rejects when an
+	 * entry fails to load, unless `continueOnFailure` is set. Entries still loading when it rejects aren't reported.
+	 */
+	public async preload<M extends PreloadManifest>(
+		manifest: M, options: PreloadOptions = {}
+	): Promise<PreloadedAssets<M>> {
+		if (!this._assets) {
+			throw new Error("Cannot load new assets into an unloaded container!");
 		}
 
-		const newAssets: Asset[] = [];
-		for (const def of response.assets) {
-			def.source = source;
-			const asset = Asset.Parse(this, def);
-			this._assets[def.id] = asset;
-			newAssets.push(asset);
-		}
-		return newAssets;
+		const names = Object.keys(manifest);
+		const result: Partial<Record<keyof M, Asset | Asset[]>> = {};
+		let rejected = false;
+		const progress: PreloadProgress = {
+			name: undefined,
+			loaded: 0,
+			failed: 0,
+			total: names.length,
+			bytesLoaded: 0,
+			bytesTotal: names.map(name => sizeOf(manifest[name])).reduce((sum, size) => sum + size, 0)
+		};
+		await Promise.all(names.map(async name => {
+			let error: Error;
+			try {
+				result[name] = await this.preloadItem(name, manifest[name]);
+				progress.loaded++;
+				progress.bytesLoaded += sizeOf(manifest[name]);
+			} catch (e) {
+				error = e instanceof Error ? e : new Error(e);
+				progress.failed++;
+			}
+			if (options.onProgress && !rejected) {
+				options.onProgress({ ...progress, name, error });
+			}
+			if (error && !options.continueOnFailure) {
+				rejected = true;
+				throw new Error(`Failed to preload ${name}: ${error.message}`);
+			}
+		}));
+		return result as PreloadedAssets<M>;
 	}
 
 	/** Break references to all assets in the container, and unload them to free memory */
 	public unload(): void {
+		for (const timer of this.unloadTimers.values()) {
+			clearTimeout(timer);
+		}
+		this.unloadTimers.clear();
+		// Shared assets are released instead, and unloaded with the last container using them.
+		AssetCatalog.releaseAll(this);
 		for (const a of this.assets) {
 			a.breakAllReferences();
 		}
+		this.context.internal.recordUnloadedAssets(this.assets);
 		this.context.internal.assetContainers.delete(this);
 		this._assets = null;
+		for (const load of this._gltfLoads) {
+			AssetCatalog.releaseGltf(load.uri);
+		}
 
 		// wait until after the unassignments get propagated to clients to avoid visually
 		// missing textures (renders black) and missing materials (renders magenta)
 		this.context.internal.nextUpdate().then(() => {
-			this.context.internal.protocol.sendPayload({
+			this.context.internal.sendPayload({
 				type: 'unload-assets',
 				containerId: this.id
 			} as Payloads.UnloadAssets);
+			for (const uri of this._hostedBuffers) {
+				this.context.internal.bufferHost.releaseBuffer(uri);
+			}
+			this._hostedBuffers = [];
 		})
 		.catch(err => log.error('app', err));
 	}
 
+	/**
+	 * @hidden
+	 * Break references to the given assets and unload them, leaving the rest of the container loaded. See
+	 * [[Asset.unload]].
+	 */
+	public unloadAssets(assets: Asset[]) {
+		if (!this._assets) {
+			return;
+		}
+		assets = assets.filter(asset => this._assets[asset.id] === asset);
+		const gltfAsset = assets.find(isFromGltf);
+		if (gltfAsset) {
+			throw new Error(`Cannot unload ${gltfAsset.name} on its own, because it was loaded from a glTF file. ` +
+				"Unload its container instead.");
+		}
+		// Shared assets are released instead, and unloaded once every reference to them has been released.
+		const shared = assets.filter(asset => AssetCatalog.isShared(asset));
+		assets = assets.filter(asset => !shared.includes(asset));
+		for (const asset of shared) {
+			AssetCatalog.release(this, asset);
+		}
+		if (!assets.length) {
+			return;
+		}
+
+		for (const asset of assets) {
+			clearTimeout(this.unloadTimers.get(asset));
+			this.unloadTimers.delete(asset);
+			asset.breakAllReferences();
+			// An unloaded material no longer uses its textures, which may now be unused too.
+			if (asset instanceof Material) {
+				for (const texture of asset.textures) {
+					texture.clearReference(asset);
+				}
+			} else if (asset instanceof Texture) {
+				this.releaseHostedBuffer(asset.uri);
+			}
+			delete this._assets[asset.id];
+		}
+		this.context.internal.recordUnloadedAssets(assets);
+
+		// As with unloading the whole container, wait for the unassignments to reach clients first.
+		const assetIds = assets.map(asset => asset.id);
+		this.context.internal.nextUpdate().then(() => {
+			this.context.internal.sendPayload({
+				type: 'unload-assets',
+				containerId: this.id,
+				assetIds
+			} as Payloads.UnloadAssets);
+		})
+		.catch(err => log.error('app', err));
+	}
+
+	/**
+	 * @hidden
+	 * List assets shared by other containers among this container's. See [[AssetCatalog]].
+	 * @param assets The shared assets.
+	 * @param gltfLoad The glTF file the assets were loaded from, if they were.
+	 */
+	public addSharedAssets(assets: Asset[], gltfLoad?: { uri: string, colliderType?: 'box' | 'mesh' }) {
+		if (!this._assets) {
+			throw new Error("Cannot load new assets into an unloaded container!");
+		}
+		for (const asset of assets) {
+			this._assets[asset.id] = asset;
+		}
+		if (gltfLoad) {
+			AssetCatalog.retainGltf(gltfLoad.uri);
+			this._gltfLoads.push({ ...gltfLoad });
+		}
+	}
+
+	/**
+	 * @hidden
+	 * Stop listing shared assets among this container's. See [[AssetCatalog]].
+	 */
+	public removeSharedAssets(assets: Asset[]) {
+		for (const asset of this._assets ? assets : []) {
+			if (this._assets[asset.id] === asset) {
+				delete this._assets[asset.id];
+			}
+		}
+	}
+
+	/**
+	 * @hidden
+	 * Encode pixels as a PNG file, and serve it until the container is unloaded or [[releaseHostedBuffer]] is called.
+	 * @returns The URL the file is served from.
+	 */
+	public hostPixels(pixels: TexturePixels) {
+		return this.hostBuffer(encodePng(pixels.width, pixels.height, pixels.rgba), '.png');
+	}
+
+	/**
+	 * @hidden
+	 * Serve a buffer until the container is unloaded or [[releaseHostedBuffer]] is called.
+	 * @param buffer The contents of the file.
+	 * @param extension The file extension to serve it with, e.g. `.png`.
+	 * @returns The URL the file is served from.
+	 */
+	public hostBuffer(buffer: Buffer, extension: string) {
+		if (!this._assets) {
+			throw new Error("Cannot load new assets into an unloaded container!");
+		}
+		const bufferHost = this.context.internal.bufferHost;
+		if (!bufferHost) {
+			throw new Error("Cannot host buffers for a context created without a buffer host");
+		}
+		const uri = bufferHost.hostBuffer(buffer, extension);
+		this._hostedBuffers.push(uri);
+		return uri;
+	}
+
+	/**
+	 * @hidden
+	 * Stop serving a buffer this container hosted, once clients have been told to stop using it. Does nothing for
+	 * other URLs.
+	 */
+	public releaseHostedBuffer(uri: string) {
+		const index = this._hostedBuffers.lastIndexOf(uri);
+		if (index === -1) {
+			return;
+		}
+		this._hostedBuffers.splice(index, 1);
+		this.context.internal.nextUpdate()
+			.then(() => this.context.internal.bufferHost.releaseBuffer(uri))
+			.catch(err => log.error('app', err));
+	}
+
+	/**
+	 * @hidden
+	 * Schedule or cancel the automatic unloading of an asset as actors and materials start and stop using it.
+	 */
+	public assetReferencesChanged(asset: Asset, referenceCount: number) {
+		if (!this.options.autoUnload || !this._assets || this._assets[asset.id] !== asset || isFromGltf(asset) ||
+			!(asset instanceof Material || asset instanceof Texture || asset instanceof Mesh)) {
+			return;
+		}
+		clearTimeout(this.unloadTimers.get(asset));
+		this.unloadTimers.delete(asset);
+		if (referenceCount === 0) {
+			const delay = this.options.autoUnloadDelay !== undefined ? this.options.autoUnloadDelay : 30;
+			this.unloadTimers.set(asset, setTimeout(() => {
+				this.unloadTimers.delete(asset);
+				this.unloadAssets([asset]);
+			}, delay * 1000));
+		}
+	}
+
+	/**
+	 * @hidden
+	 * Re-create a previously created asset from its definition, keeping its id.
+	 */
+	public restoreAsset(definition: AssetLike): Asset {
+		const asset = Asset.Parse(this, definition);
+		asset.setLoadedPromise(this.sendCreateAsset(asset));
+		return asset;
+	}
+
+	private async preloadItem(name: string, item: PreloadItem): Promise<Asset | Asset[]> {
+		let asset: Asset;
+		switch (item.type) {
+			case 'gltf':
+				if (item.buffer) {
+					return this.loadGltfFromBuffer(item.buffer, item.colliderType);
+				} else if (item.uri) {
+					return this.loadGltf(item.uri, item.colliderType);
+				}
+				throw new Error("glTF entries need a uri or a buffer");
+			case 'texture':
+				asset = this.createTexture(name, item.definition);
+				break;
+			case 'sound':
+				asset = this.createSound(name, item.definition);
+				break;
+			case 'video-stream':
+				asset = this.createVideoStream(name, item.definition);
+				break;
+			default:
+				throw new Error(`Unknown preload type ${(item as PreloadItem).type}`);
+		}
+		await asset.created;
+		return asset;
+	}
+
+	private async loadGltfWithInfo(uri: string, colliderType?: 'box' | 'mesh', info?: GltfInfo): Promise<Asset[]> {
+		if (!this._assets) {
+			throw new Error("Cannot load new assets into an unloaded container!");
+		}
+
+		const source = {
+			containerType: 'gltf',
+			uri
+		} as AssetSource;
+
+		const payload = {
+			type: 'load-assets',
+			containerId: this.id,
+			source,
+			colliderType
+		} as Payloads.LoadAssets;
+
+		// Keep what the app knows about the file while it's loaded, and read it alongside the client. See inspectGltf.
+		AssetCatalog.retainGltf(uri, info);
+		const reading = info ? Promise.resolve(info) : AssetCatalog.inspectGltf(uri).catch(e => {
+			log.warning('app', `Failed to read glTF file ${uri}. ${e.message || e}`);
+			return undefined as GltfInfo;
+		});
+		let response: Payloads.AssetsLoaded;
+		try {
+			response = await this.sendPayloadAndGetReply<Payloads.LoadAssets, Payloads.AssetsLoaded>(payload);
+			if (response.failureMessage) {
+				throw new Error(response.failureMessage);
+			}
+		} catch (e) {
+			AssetCatalog.releaseGltf(uri);
+			throw e;
+		}
+
+		info = await reading;
+		const newAssets: Asset[] = [];
+		for (const def of response.assets) {
+			def.source = { ...def.source, ...source };
+			if (info) {
+				fillFromGltf(def, info);
+			}
+			const asset = Asset.Parse(this, def);
+			this._assets[def.id] = asset;
+			newAssets.push(asset);
+		}
+		this._gltfLoads.push({ uri, colliderType });
+		return newAssets;
+	}
+
 	private async sendCreateAsset(asset: Asset): Promise<void> {
 		if (!this._assets) {
 			throw new Error("Cannot load new assets into an unloaded container!");
@@ -301,14 +688,54 @@ export class AssetContainer {
 			throw new Error(`Creation/Loading of asset ${asset.name} failed: ${reply.failureMessage}`);
 		}
 
-		asset.copy(reply.assets[0]);
+		this.context.internal.collectChanges('client', () => asset.copy(reply.assets[0]));
 	}
 
 	private sendPayloadAndGetReply<T extends Payloads.Payload, U extends Payloads.Payload>(payload: T): Promise<U> {
 		return new Promise<U>((resolve, reject) => {
-			this.context.internal.protocol.sendPayload(
+			this.context.internal.sendPayload(
 				payload, { resolve, reject }
 			);
 		});
 	}
 }
+
+/** The size of a preload entry, if it's known up front. */
+function sizeOf(item: PreloadItem) {
+	return item.type === 'gltf' && item.buffer ? item.buffer.length : 0;
+}
+
+/** Fill in the mesh and prefab properties a client didn't report from the app's reading of their glTF file. */
+function fillFromGltf(def: AssetLike, info: GltfInfo) {
+	if (def.prefab && def.prefab.actorCount === undefined) {
+		def.prefab.actorCount = info.actorCount;
+	}
+	// Meshes are matched by name, so only those with unique names can be filled in.
+	const matches = def.mesh && info.meshes.filter(mesh => mesh.name === def.name);
+	if (matches && matches.length === 1) {
+		const [mesh] = matches;
+		def.mesh = {
+			vertexCount: mesh.vertexCount,
+			triangleCount: mesh.triangleCount,
+			boundingBoxDimensions: mesh.boundingBoxDimensions,
+			boundingBoxCenter: mesh.boundingBoxCenter,
+			...omitUndefined(def.mesh)
+		};
+	}
+}
+
+/** Copy an object without its undefined properties, so spreading it doesn't overwrite defaults. */
+function omitUndefined<T>(value: Partial<T>): Partial<T> {
+	const result: Partial<T> = {};
+	for (const key of Object.keys(value) as Array<keyof T>) {
+		if (value[key] !== undefined) {
+			result[key] = value[key];
+		}
+	}
+	return result;
+}
+
+/** glTF assets are shared with the glTF's prefabs, so they can only be unloaded with their container. */
+function isFromGltf(asset: Asset) {
+	return !!asset.source && asset.source.containerType === 'gltf';
+}
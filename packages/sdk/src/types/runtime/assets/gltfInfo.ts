@@ -0,0 +1,69 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { PrefabAnimationLike } from '.';
+import { Color4Like, Vector3Like } from '../../..';
+import { ScaledTransformLike } from '../transform';
+
+/**
+ * A node in a glTF file's default scene, which becomes an actor when the file's prefab is spawned.
+ */
+export interface GltfNodeInfo {
+	/** The name of the node, as given in the file. */
+	name: string;
+	/** The index of the node's parent in [[GltfInfo.nodes]], or -1 for the scene's root nodes. */
+	parent: number;
+	/** The indices of the node's children in [[GltfInfo.nodes]]. */
+	children: number[];
+	/** The index of the node's mesh in [[GltfInfo.meshes]], if it has one. */
+	mesh?: number;
+	/** The node's transform relative to its parent. */
+	transform: ScaledTransformLike;
+}
+
+/**
+ * A mesh in a glTF file.
+ */
+export interface GltfMeshInfo {
+	/** The name of the mesh, as given in the file. */
+	name: string;
+	/** The number of vertices in the mesh. */
+	vertexCount: number;
+	/** The number of triangles in the mesh. */
+	triangleCount: number;
+	/** The size of the axis-aligned box that exactly contains the mesh. */
+	boundingBoxDimensions: Vector3Like;
+	/** The center of the axis-aligned box that exactly contains the mesh. */
+	boundingBoxCenter: Vector3Like;
+	/** The indices in [[GltfInfo.materials]] of the materials the mesh's primitives use. */
+	materials: number[];
+}
+
+/**
+ * A material in a glTF file.
+ */
+export interface GltfMaterialInfo {
+	/** The name of the material, as given in the file. */
+	name: string;
+	/** The material's base color. */
+	color: Color4Like;
+}
+
+/**
+ * The contents of a glTF file, read by the app without loading it on a client. See [[AssetContainer.inspectGltf]].
+ * Positions, rotations and bounds are in the app's left-handed coordinates, like the actors the file spawns.
+ */
+export interface GltfInfo {
+	/** The nodes of the file's default scene, parents before their children. */
+	nodes: GltfNodeInfo[];
+	/** The meshes in the file. */
+	meshes: GltfMeshInfo[];
+	/** The materials in the file. */
+	materials: GltfMaterialInfo[];
+	/** The animation clips in the file. */
+	animations: PrefabAnimationLike[];
+	/** The number of actors the file's prefab spawns: one per node, plus a root actor for the scene. */
+	actorCount: number;
+}
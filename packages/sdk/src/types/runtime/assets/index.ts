@@ -7,8 +7,11 @@ export * from './asset';
 export * from './material';
 export * from './mesh';
 export * from './prefab';
+export * from './preload';
 export * from './sound';
 export * from './texture';
 export * from './videoStream';
+export * from './gltfInfo';
+export * from './assetCatalog';
 export * from './assetIterator';
 export * from './assetContainer';
@@ -6,7 +6,7 @@
 import { Asset, AssetContainer, AssetLike, Texture } from '.';
 import { Actor } from '..';
 import { ZeroGuid } from '../../../constants';
-import { Color3, Color4, Color4Like, Vector2, Vector2Like } from '../../../math';
+import { Color3, Color3Like, Color4, Color4Like, Vector2, Vector2Like } from '../../../math';
 import { observe } from '../../../utils/observe';
 import readPath from '../../../utils/readPath';
 import { InternalAsset } from '../../internal/asset';
@@ -28,8 +28,46 @@ export interface MaterialLike {
 	alphaMode: AlphaMode;
 	/** Visibility threshold in masked alpha mode */
 	alphaCutoff: number;
+	/** The color of the light this material emits. Defaults to black, i.e. no emission. */
+	emissiveColor: Partial<Color3Like>;
+	/** The emissive texture asset ID, whose color is multiplied by the emissive color. */
+	emissiveTextureId: string;
+	/** How metallic this material is, from 0 (dielectric) to 1 (metal). Defaults to 0. */
+	metallic: number;
+	/** How rough this material's surface is, from 0 (smooth) to 1 (rough). Defaults to 0.5. */
+	roughness: number;
+	/**
+	 * The metallic-roughness texture asset ID. Its blue channel is multiplied by the metallic factor, and its green
+	 * channel by the roughness factor.
+	 */
+	metallicRoughnessTextureId: string;
+	/** The tangent-space normal map texture asset ID. */
+	normalTextureId: string;
+	/** How strongly the normal map perturbs the surface. Defaults to 1. */
+	normalScale: number;
+	/** The ambient occlusion texture asset ID, read from its red channel. */
+	occlusionTextureId: string;
+	/** How strongly ambient occlusion is applied, from 0 (none) to 1 (fully). Defaults to 1. */
+	occlusionStrength: number;
+	/** Whether the back faces of meshes are rendered too. Defaults to false. */
+	doubleSided: boolean;
+	/** Whether the material ignores scene lighting, and is rendered with its color and textures as they are. */
+	unlit: boolean;
 }
 
+/**
+ * @hidden
+ * The properties of a material that refer to texture assets.
+ */
+export type MaterialTextureProperty =
+	'mainTextureId' | 'emissiveTextureId' | 'metallicRoughnessTextureId' | 'normalTextureId' | 'occlusionTextureId';
+
+/**
+ * @hidden
+ */
+export const materialTextureProperties: MaterialTextureProperty[] =
+	['mainTextureId', 'emissiveTextureId', 'metallicRoughnessTextureId', 'normalTextureId', 'occlusionTextureId'];
+
 /**
  * Controls how transparency is handled.
  */
@@ -53,11 +91,24 @@ export enum AlphaMode {
 export class Material extends Asset implements MaterialLike, Patchable<AssetLike> {
 	// tslint:disable:variable-name
 	private _color = Color4.FromColor3(Color3.White(), 1.0);
-	private _mainTextureId: string = ZeroGuid;
+	private _textureIds: { [P in MaterialTextureProperty]: string } = {
+		mainTextureId: ZeroGuid,
+		emissiveTextureId: ZeroGuid,
+		metallicRoughnessTextureId: ZeroGuid,
+		normalTextureId: ZeroGuid,
+		occlusionTextureId: ZeroGuid
+	};
 	private _mainTextureOffset = Vector2.Zero();
 	private _mainTextureScale = Vector2.One();
 	private _alphaMode = AlphaMode.Opaque;
 	private _alphaCutoff = 0.5;
+	private _emissiveColor = Color3.Black();
+	private _metallic = 0;
+	private _roughness = 0.5;
+	private _normalScale = 1;
+	private _occlusionStrength = 1;
+	private _doubleSided = false;
+	private _unlit = false;
 	private _internal = new InternalAsset(this);
 	// tslint:enable:variable-name
 
@@ -69,34 +120,12 @@ export class Material extends Asset implements MaterialLike, Patchable<AssetLike
 	public set color(value) { if (value) { this._color.copy(value); } }
 
 	/** @returns A shared reference to this material's texture asset */
-	public get mainTexture() {
-		return this.container.context.internal.lookupAsset(this._mainTextureId) as Texture;
-	}
-	public set mainTexture(value) {
-		this.mainTextureId = value && value.id || ZeroGuid;
-	}
+	public get mainTexture() { return this.lookupTexture('mainTextureId'); }
+	public set mainTexture(value) { this.mainTextureId = value && value.id || ZeroGuid; }
 
 	/** @inheritdoc */
-	public get mainTextureId() { return this._mainTextureId; }
-	public set mainTextureId(value) {
-		if (!value || value.startsWith('0000')) {
-			value = ZeroGuid;
-		}
-		if (!this.container.context.internal.lookupAsset(value)) {
-			value = ZeroGuid; // throw?
-		}
-
-		if (value === this._mainTextureId) return;
-
-		if (this.mainTexture) {
-			this.mainTexture.clearReference(this);
-		}
-		this._mainTextureId = value;
-		if (this.mainTexture) {
-			this.mainTexture.addReference(this);
-		}
-		this.materialChanged('mainTextureId');
-	}
+	public get mainTextureId() { return this._textureIds.mainTextureId; }
+	public set mainTextureId(value) { this.setTextureId('mainTextureId', value); }
 
 	/** @inheritdoc */
 	public get mainTextureOffset() { return this._mainTextureOffset; }
@@ -114,6 +143,72 @@ export class Material extends Asset implements MaterialLike, Patchable<AssetLike
 	public get alphaCutoff() { return this._alphaCutoff; }
 	public set alphaCutoff(value) { this._alphaCutoff = value; this.materialChanged('alphaCutoff'); }
 
+	/** @inheritdoc */
+	public get emissiveColor() { return this._emissiveColor; }
+	public set emissiveColor(value) { if (value) { this._emissiveColor.copy(value); } }
+
+	/** @returns A shared reference to this material's emissive texture asset */
+	public get emissiveTexture() { return this.lookupTexture('emissiveTextureId'); }
+	public set emissiveTexture(value) { this.emissiveTextureId = value && value.id || ZeroGuid; }
+
+	/** @inheritdoc */
+	public get emissiveTextureId() { return this._textureIds.emissiveTextureId; }
+	public set emissiveTextureId(value) { this.setTextureId('emissiveTextureId', value); }
+
+	/** @inheritdoc */
+	public get metallic() { return this._metallic; }
+	public set metallic(value) { this._metallic = value; this.materialChanged('metallic'); }
+
+	/** @inheritdoc */
+	public get roughness() { return this._roughness; }
+	public set roughness(value) { this._roughness = value; this.materialChanged('roughness'); }
+
+	/** @returns A shared reference to this material's metallic-roughness texture asset */
+	public get metallicRoughnessTexture() { return this.lookupTexture('metallicRoughnessTextureId'); }
+	public set metallicRoughnessTexture(value) { this.metallicRoughnessTextureId = value && value.id || ZeroGuid; }
+
+	/** @inheritdoc */
+	public get metallicRoughnessTextureId() { return this._textureIds.metallicRoughnessTextureId; }
+	public set metallicRoughnessTextureId(value) { this.setTextureId('metallicRoughnessTextureId', value); }
+
+	/** @returns A shared reference to this material's normal map texture asset */
+	public get normalTexture() { return this.lookupTexture('normalTextureId'); }
+	public set normalTexture(value) { this.normalTextureId = value && value.id || ZeroGuid; }
+
+	/** @inheritdoc */
+	public get normalTextureId() { return this._textureIds.normalTextureId; }
+	public set normalTextureId(value) { this.setTextureId('normalTextureId', value); }
+
+	/** @inheritdoc */
+	public get normalScale() { return this._normalScale; }
+	public set normalScale(value) { this._normalScale = value; this.materialChanged('normalScale'); }
+
+	/** @returns A shared reference to this material's occlusion texture asset */
+	public get occlusionTexture() { return this.lookupTexture('occlusionTextureId'); }
+	public set occlusionTexture(value) { this.occlusionTextureId = value && value.id || ZeroGuid; }
+
+	/** @inheritdoc */
+	public get occlusionTextureId() { return this._textureIds.occlusionTextureId; }
+	public set occlusionTextureId(value) { this.setTextureId('occlusionTextureId', value); }
+
+	/** @inheritdoc */
+	public get occlusionStrength() { return this._occlusionStrength; }
+	public set occlusionStrength(value) { this._occlusionStrength = value; this.materialChanged('occlusionStrength'); }
+
+	/** @inheritdoc */
+	public get doubleSided() { return this._doubleSided; }
+	public set doubleSided(value) { this._doubleSided = value; this.materialChanged('doubleSided'); }
+
+	/** @inheritdoc */
+	public get unlit() { return this._unlit; }
+	public set unlit(value) { this._unlit = value; this.materialChanged('unlit'); }
+
+	/** @hidden The distinct textures this material uses. */
+	public get textures() {
+		const textures = materialTextureProperties.map(property => this.lookupTexture(property)).filter(t => !!t);
+		return textures.filter((texture, i) => textures.indexOf(texture) === i);
+	}
+
 	/** @inheritdoc */
 	public get material(): Material { return this; }
 
@@ -125,7 +220,8 @@ export class Material extends Asset implements MaterialLike, Patchable<AssetLike
 			throw new Error("Cannot construct material from non-material definition");
 		}
 
-		this.copy(def);
+		// Populating a new material isn't a change.
+		this.container.context.internal.collectChanges(null, () => this.copy(def));
 
 		// material patching: observe the nested material properties
 		// for changed values, and write them to a patch
@@ -144,6 +240,11 @@ export class Material extends Asset implements MaterialLike, Patchable<AssetLike
 			targetName: 'mainTextureScale',
 			notifyChanged: (...path: string[]) => this.materialChanged(...path)
 		});
+		observe({
+			target: this._emissiveColor,
+			targetName: 'emissiveColor',
+			notifyChanged: (...path: string[]) => this.materialChanged(...path)
+		});
 	}
 
 	public copy(from: Partial<AssetLike>): this {
@@ -166,15 +267,39 @@ export class Material extends Asset implements MaterialLike, Patchable<AssetLike
 			if (from.material.mainTextureScale) {
 				this.mainTextureScale.copy(from.material.mainTextureScale);
 			}
-			if (from.material.mainTextureId) {
-				this.mainTextureId = from.material.mainTextureId;
+			for (const property of materialTextureProperties) {
+				if (from.material[property]) {
+					this.setTextureId(property, from.material[property]);
+				}
 			}
-			if (from.material.alphaMode) {
+			if (from.material.alphaMode && from.material.alphaMode !== this.alphaMode) {
 				this.alphaMode = from.material.alphaMode;
 			}
-			if (from.material.alphaCutoff) {
+			if (from.material.alphaCutoff && from.material.alphaCutoff !== this.alphaCutoff) {
 				this.alphaCutoff = from.material.alphaCutoff;
 			}
+			if (from.material.emissiveColor) {
+				this.emissiveColor.copy(from.material.emissiveColor);
+			}
+			if (from.material.metallic !== undefined && from.material.metallic !== this.metallic) {
+				this.metallic = from.material.metallic;
+			}
+			if (from.material.roughness !== undefined && from.material.roughness !== this.roughness) {
+				this.roughness = from.material.roughness;
+			}
+			if (from.material.normalScale !== undefined && from.material.normalScale !== this.normalScale) {
+				this.normalScale = from.material.normalScale;
+			}
+			if (from.material.occlusionStrength !== undefined &&
+				from.material.occlusionStrength !== this.occlusionStrength) {
+				this.occlusionStrength = from.material.occlusionStrength;
+			}
+			if (from.material.doubleSided !== undefined && from.material.doubleSided !== this.doubleSided) {
+				this.doubleSided = from.material.doubleSided;
+			}
+			if (from.material.unlit !== undefined && from.material.unlit !== this.unlit) {
+				this.unlit = from.material.unlit;
+			}
 		}
 
 		this.internal.observing = wasObserving;
@@ -191,17 +316,64 @@ export class Material extends Asset implements MaterialLike, Patchable<AssetLike
 				mainTextureOffset: this.mainTextureOffset.toJSON(),
 				mainTextureScale: this.mainTextureScale.toJSON(),
 				alphaMode: this.alphaMode,
-				alphaCutoff: this.alphaCutoff
+				alphaCutoff: this.alphaCutoff,
+				emissiveColor: this.emissiveColor.toJSON(),
+				emissiveTextureId: this.emissiveTextureId,
+				metallic: this.metallic,
+				roughness: this.roughness,
+				metallicRoughnessTextureId: this.metallicRoughnessTextureId,
+				normalTextureId: this.normalTextureId,
+				normalScale: this.normalScale,
+				occlusionTextureId: this.occlusionTextureId,
+				occlusionStrength: this.occlusionStrength,
+				doubleSided: this.doubleSided,
+				unlit: this.unlit
 			}
 		};
 	}
 
+	/** @hidden Stop using a texture, e.g. because it has been unloaded. */
+	public removeTexture(texture: Texture) {
+		for (const property of materialTextureProperties) {
+			if (this._textureIds[property] === texture.id) {
+				this.setTextureId(property, ZeroGuid);
+			}
+		}
+	}
+
+	private lookupTexture(property: MaterialTextureProperty) {
+		return this.container.context.internal.lookupAsset(this._textureIds[property]) as Texture;
+	}
+
+	private setTextureId(property: MaterialTextureProperty, value: string) {
+		if (!value || value.startsWith('0000')) {
+			value = ZeroGuid;
+		}
+		if (!this.container.context.internal.lookupAsset(value)) {
+			value = ZeroGuid; // throw?
+		}
+
+		if (value === this._textureIds[property]) return;
+
+		// The same texture may fill several slots, so only release it once it fills none.
+		const previous = this.lookupTexture(property);
+		this._textureIds[property] = value;
+		if (previous && !this.textures.includes(previous)) {
+			previous.clearReference(this);
+		}
+		if (this.lookupTexture(property)) {
+			this.lookupTexture(property).addReference(this);
+		}
+		this.materialChanged(property);
+	}
+
 	private materialChanged(...path: string[]): void {
 		if (this.internal.observing) {
 			this.container.context.internal.incrementGeneration();
 			this.internal.patch = this.internal.patch || { material: {} } as AssetLike;
 			readPath(this, this.internal.patch.material, ...path);
 		}
+		this.container.context.internal.recordChange(this, ['material', ...path].join('.'));
 	}
 
 	/** @hidden */
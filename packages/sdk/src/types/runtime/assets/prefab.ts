@@ -8,14 +8,29 @@ import { Actor } from '..';
 import { InternalAsset } from '../../internal/asset';
 import { Patchable } from '../../patchable';
 
+/**
+ * An animation clip contained in a glTF prefab.
+ */
+export interface PrefabAnimationLike {
+	/** The name of the clip, used as the animation name on actors spawned from the prefab. */
+	name: string;
+	/** The length of the clip, in seconds. */
+	duration: number;
+	/** The names of the nodes the clip animates. */
+	targetNames: string[];
+}
+
 export interface PrefabLike {
 	/** The number of actors this prefab contains. */
 	actorCount: number;
+	/** The animation clips this prefab contains. */
+	animations?: PrefabAnimationLike[];
 }
 
 export class Prefab extends Asset implements PrefabLike, Patchable<AssetLike> {
 	// tslint:disable:variable-name
 	private _actorCount: number;
+	private _animations: PrefabAnimationLike[] = [];
 	private _internal = new InternalAsset(this);
 	// tslint:enable:variable-name
 
@@ -24,6 +39,8 @@ export class Prefab extends Asset implements PrefabLike, Patchable<AssetLike> {
 
 	/** @inheritdoc */
 	public get actorCount() { return this._actorCount; }
+	/** @inheritdoc */
+	public get animations() { return this._animations; }
 
 	/** @inheritdoc */
 	public get prefab(): Prefab { return this; }
@@ -52,6 +69,8 @@ export class Prefab extends Asset implements PrefabLike, Patchable<AssetLike> {
 		super.copy(from);
 		if (from.prefab)
 			this._actorCount = from.prefab.actorCount;
+		if (from.prefab && from.prefab.animations)
+			this._animations = from.prefab.animations.map(copyClip);
 		// tslint:enable:curly
 
 		this.internal.observing = wasObserving;
@@ -63,7 +82,8 @@ export class Prefab extends Asset implements PrefabLike, Patchable<AssetLike> {
 		return {
 			...super.toJSON(),
 			prefab: {
-				actorCount: this._actorCount
+				actorCount: this._actorCount,
+				animations: this._animations.map(copyClip)
 			}
 		};
 	}
@@ -73,3 +93,7 @@ export class Prefab extends Asset implements PrefabLike, Patchable<AssetLike> {
 		if (!(ref instanceof Actor)) return;
 	}
 }
+
+function copyClip(clip: PrefabAnimationLike): PrefabAnimationLike {
+	return { name: clip.name, duration: clip.duration, targetNames: [...(clip.targetNames || [])] };
+}
@@ -0,0 +1,99 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { Asset, Sound, SoundLike, Texture, TextureLike, VideoStream, VideoStreamLike } from '.';
+
+/**
+ * A glTF file to preload, by URI or from memory. See [[AssetContainer.loadGltf]] and
+ * [[AssetContainer.loadGltfFromBuffer]].
+ */
+export type PreloadGltf = {
+	type: 'gltf';
+	/** The URI of the glTF file. Either this or `buffer` is required. */
+	uri?: string;
+	/** The contents of the glTF file. Either this or `uri` is required. */
+	buffer?: Buffer;
+	/** The shape of the generated prefab collider. */
+	colliderType?: 'box' | 'mesh';
+};
+
+/**
+ * A texture to preload. See [[AssetContainer.createTexture]].
+ */
+export type PreloadTexture = {
+	type: 'texture';
+	/** The initial texture properties. The `uri` property is required. */
+	definition: Partial<TextureLike>;
+};
+
+/**
+ * A sound to preload. See [[AssetContainer.createSound]].
+ */
+export type PreloadSound = {
+	type: 'sound';
+	/** The initial sound properties. The `uri` property is required. */
+	definition: Partial<SoundLike>;
+};
+
+/**
+ * A video stream to preload. See [[AssetContainer.createVideoStream]].
+ */
+export type PreloadVideoStream = {
+	type: 'video-stream';
+	/** The initial video stream properties. The `uri` property is required. */
+	definition: Partial<VideoStreamLike>;
+};
+
+export type PreloadItem = PreloadGltf | PreloadTexture | PreloadSound | PreloadVideoStream;
+
+/**
+ * The assets to load with [[AssetContainer.preload]], by the names to give them.
+ */
+export type PreloadManifest = { [name: string]: PreloadItem };
+
+/**
+ * The result of [[AssetContainer.preload]]: the assets loaded for each manifest entry, by name. Entries that failed
+ * to load are left undefined.
+ */
+export type PreloadedAssets<M extends PreloadManifest> = {
+	[K in keyof M]:
+		M[K] extends PreloadGltf ? Asset[] :
+		M[K] extends PreloadTexture ? Texture :
+		M[K] extends PreloadSound ? Sound :
+		VideoStream;
+};
+
+/**
+ * Reported by [[AssetContainer.preload]] each time a manifest entry finishes loading, or fails to.
+ */
+export type PreloadProgress = {
+	/** The name of the entry that just finished. */
+	name: string;
+	/** The number of entries loaded so far. */
+	loaded: number;
+	/** The number of entries that have failed to load so far. */
+	failed: number;
+	/** The number of entries in the manifest. */
+	total: number;
+	/** The size of the entries loaded so far, in bytes. Only entries whose size is known up front are counted. */
+	bytesLoaded: number;
+	/** The size of the entries whose size is known up front, in bytes. */
+	bytesTotal: number;
+	/** Why the entry failed to load, if it did. */
+	error?: Error;
+};
+
+/**
+ * Options for [[AssetContainer.preload]].
+ */
+export type PreloadOptions = {
+	/** Called each time an entry finishes loading, or fails to. */
+	onProgress?: (progress: PreloadProgress) => void;
+	/**
+	 * Keep loading the remaining entries when one fails, rather than rejecting. Failed entries are left out of the
+	 * result.
+	 */
+	continueOnFailure?: boolean;
+};
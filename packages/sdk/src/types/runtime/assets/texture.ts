@@ -11,6 +11,18 @@ import readPath from '../../../utils/readPath';
 import { InternalAsset } from '../../internal/asset';
 import { Patchable } from '../../patchable';
 
+/**
+ * The pixels of a texture generated by the app. See [[AssetContainer.createTextureFromPixels]].
+ */
+export interface TexturePixels {
+	/** The width of the texture, in pixels. */
+	width: number;
+	/** The height of the texture, in pixels. */
+	height: number;
+	/** The pixels as 8-bit red, green, blue and alpha values, row by row from the top left. */
+	rgba: Uint8Array;
+}
+
 export interface TextureLike {
 	uri: string;
 	resolution: Vector2Like;
@@ -57,6 +69,22 @@ export class Texture extends Asset implements TextureLike, Patchable<AssetLike>
 	/** @inheritdoc */
 	public get texture(): Texture { return this; }
 
+	/**
+	 * Replace the texture's image with new pixels, e.g. to update a scoreboard. The pixels are hosted under a new URL,
+	 * and clients reload the texture from it. The previous URL stops being served once clients have been told about
+	 * the new one, unless another texture still uses the same pixels. See
+	 * [[AssetContainer.createTextureFromPixels]].
+	 * @param pixels The texture's new size and pixels.
+	 */
+	public setPixels(pixels: TexturePixels) {
+		const previous = this._uri;
+		this._uri = this.container.hostPixels(pixels);
+		this.textureChanged('uri');
+		this._resolution = new Vector2(pixels.width, pixels.height);
+		this.textureChanged('resolution');
+		this.container.releaseHostedBuffer(previous);
+	}
+
 	/** INTERNAL USE ONLY. To load a new texture from scratch, use [[AssetManager.createTexture]] */
 	public constructor(container: AssetContainer, def: AssetLike) {
 		super(container, def);
@@ -65,7 +93,8 @@ export class Texture extends Asset implements TextureLike, Patchable<AssetLike>
 			throw new Error("Cannot construct texture from non-texture definition");
 		}
 
-		this.copy(def);
+		// Populating a new texture isn't a change.
+		this.container.context.internal.collectChanges(null, () => this.copy(def));
 	}
 
 	public copy(from: Partial<AssetLike>): this {
@@ -81,11 +110,16 @@ export class Texture extends Asset implements TextureLike, Patchable<AssetLike>
 		super.copy(from);
 		if (from.texture && from.texture.uri)
 			this._uri = from.texture.uri;
-		if (from.texture && from.texture.resolution)
-			this._resolution = new Vector2(from.texture.resolution.x, from.texture.resolution.y);
-		if (from.texture && from.texture.wrapU)
+		if (from.texture && from.texture.resolution) {
+			const resolution = new Vector2(from.texture.resolution.x, from.texture.resolution.y);
+			if (!resolution.equals(this._resolution)) {
+				this._resolution = resolution;
+				this.textureChanged('resolution');
+			}
+		}
+		if (from.texture && from.texture.wrapU && from.texture.wrapU !== this.wrapU)
 			this.wrapU = from.texture.wrapU;
-		if (from.texture && from.texture.wrapV)
+		if (from.texture && from.texture.wrapV && from.texture.wrapV !== this.wrapV)
 			this.wrapV = from.texture.wrapV;
 		// tslint:enable:curly
 
@@ -112,13 +146,12 @@ export class Texture extends Asset implements TextureLike, Patchable<AssetLike>
 			this.internal.patch = this.internal.patch || { texture: {} } as AssetLike;
 			readPath(this, this.internal.patch.texture, ...path);
 		}
+		this.container.context.internal.recordChange(this, ['texture', ...path].join('.'));
 	}
 
 	/** @hidden */
 	public breakReference(ref: Actor | Asset) {
 		if (!(ref instanceof Material)) return;
-		if (ref.mainTexture === this) {
-			ref.mainTexture = null;
-		}
+		ref.removeTexture(this);
 	}
 }
@@ -30,7 +30,7 @@ export class VideoStream extends Asset implements VideoStreamLike, Patchable<Ass
 	public get duration() { return this._duration; }
 
 	/** @inheritdoc */
-	public get videoStream(): VideoStreamLike { return this; }
+	public get videoStream(): VideoStream { return this; }
 
 	/** @hidden */
 	public constructor(container: AssetContainer, def: AssetLike) {
@@ -84,4 +84,9 @@ export class DiscreteAction {
 
 		return false;
 	}
+
+	/** @hidden */
+	public _copyHandlers(other: DiscreteAction) {
+		this.handlers = { ...other.handlers };
+	}
 }
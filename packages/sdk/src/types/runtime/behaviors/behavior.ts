@@ -31,4 +31,17 @@ export abstract class Behavior {
 			action._setState(user, actionState);
 		}
 	}
+
+	/** @hidden */
+	public _clone(): Behavior {
+		// Create a behavior of the same type that shares this behavior's action handlers.
+		const clone = new (this.constructor as { new(): Behavior })();
+		for (const key of Object.keys(this)) {
+			const action = (this as any)[key];
+			if (action instanceof DiscreteAction) {
+				((clone as any)[key] as DiscreteAction)._copyHandlers(action);
+			}
+		}
+		return clone;
+	}
 }
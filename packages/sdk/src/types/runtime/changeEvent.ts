@@ -0,0 +1,22 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * Where a change came from. `local` changes were made by the app, and `client` changes were reported by a client,
+ * such as transforms driven by physics.
+ */
+export type ChangeSource = 'local' | 'client';
+
+/**
+ * Describes a change to the properties of an actor or asset.
+ */
+export interface ChangeEvent<T> {
+	/** The actor or asset that changed. */
+	target: T;
+	/** The paths of the properties that changed, e.g. `transform.local.position.x` or `material.color.r`. */
+	paths: string[];
+	/** Whether the change was made by the app or reported by a client. */
+	source: ChangeSource;
+}
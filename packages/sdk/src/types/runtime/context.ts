@@ -7,7 +7,12 @@ import events from 'events';
 import UUID from 'uuid/v4';
 import {
 	Actor,
+	Asset,
+	AssetContainer,
+	BufferHost,
+	ChangeEvent,
 	Connection,
+	ContextSnapshot,
 	NullConnection,
 	PerformanceStats,
 	User,
@@ -20,6 +25,16 @@ import { InternalContext } from '../internal/context';
 export interface ContextSettings {
 	connection?: Connection;
 	sessionId?: string;
+	/**
+	 * The most times per second that changes are sent to clients. Changes made in between are combined into the
+	 * next update. Unlimited by default.
+	 */
+	maxUpdateRate?: number;
+	/**
+	 * Serves the buffers the context's asset containers load from memory, e.g. with
+	 * [[AssetContainer.loadGltfFromBuffer]]. Contexts created by adapters use the adapter's host.
+	 */
+	bufferHost?: BufferHost;
 }
 
 /**
@@ -60,7 +75,30 @@ export class Context {
 	constructor(settings: ContextSettings) {
 		this._conn = settings.connection || new NullConnection();
 		this._sessionId = settings.sessionId || UUID();
-		this._internal = new InternalContext(this);
+		this._internal = new InternalContext(this, settings.maxUpdateRate, settings.bufferHost);
+	}
+
+	/**
+	 * Finds the first actor matching a selector.
+	 * @param selector A CSS-like selector. See [[queryAll]] for the syntax.
+	 * @returns The first matching actor, or undefined if there is none.
+	 */
+	public query(selector: string): Actor {
+		return this.queryAll(selector)[0];
+	}
+
+	/**
+	 * Finds all actors matching a selector. Selectors are written like CSS selectors:
+	 * - `#door` matches actors named "door", and `.handle` matches actors tagged "handle".
+	 * - `[light]`, `[text]`, `[rigidBody]` and `[collider]` match actors with that component.
+	 * - `[name="front door"]` and `[tag="door handle"]` match names and tags containing special characters.
+	 * - `*` matches any actor.
+	 * - `#door .handle` matches handles anywhere beneath a door, while `#door > .handle` only matches its children.
+	 * - `#door, #window` matches either.
+	 * @param selector The selector to match.
+	 */
+	public queryAll(selector: string): Actor[] {
+		return this.internal.actorIndex.query(selector);
 	}
 
 	/**
@@ -164,6 +202,42 @@ export class Context {
 		return this;
 	}
 
+	/**
+	 * Make a group of changes that users should see all at once. Actor, asset and user changes made in the callback,
+	 * and everything else sent to clients such as new actors, behaviors and animation commands, are held back, then
+	 * sent to clients together and in order when it returns. If the callback returns a promise, they're held until it
+	 * settles, including changes made elsewhere in the app in the meantime. Clients only reply to held messages after
+	 * the batch ends, so an async callback shouldn't wait for actors it creates or assets it loads.
+	 * Clients that support it receive the batch as one message and apply it all in the same frame. Older clients
+	 * receive its messages back to back, and may show some of them a frame before the rest.
+	 * @param callback The function making the changes.
+	 * @returns The value returned by the callback.
+	 */
+	public batch<T>(callback: () => Promise<T>): Promise<T>;
+	public batch<T>(callback: () => T): T;
+	public batch<T>(callback: () => T | Promise<T>): T | Promise<T> {
+		return this.internal.batch(callback);
+	}
+
+	/**
+	 * Set an event handler for changes to the properties of any actor or asset in this context, whether made by the
+	 * app or reported by a client. See [[Actor.onChanged]] to watch a single actor.
+	 * @param handler The handler to call with each change.
+	 */
+	public onChanged(handler: (event: ChangeEvent<Actor | Asset>) => void): this {
+		this.emitter.addListener('changed', handler);
+		return this;
+	}
+
+	/**
+	 * Remove a handler added with [[onChanged]].
+	 * @param handler The handler to remove.
+	 */
+	public offChanged(handler: (event: ChangeEvent<Actor | Asset>) => void): this {
+		this.emitter.removeListener('changed', handler);
+		return this;
+	}
+
 	/**
 	 * @hidden
 	 */
@@ -182,6 +256,25 @@ export class Context {
 		return this;
 	}
 
+	/**
+	 * Serialize the app-side state of this context (actors, assets, animations, playing media, and user group
+	 * mappings) into a versioned JSON document. Behaviors and event handlers are not included. Files served from memory,
+	 * such as glTF files loaded from buffers and textures created from pixels, are included in full.
+	 */
+	public saveSnapshot(): ContextSnapshot {
+		return this.internal.saveSnapshot();
+	}
+
+	/**
+	 * Rebuild the state saved by [[saveSnapshot]] in this context, loading assets and creating actors on the
+	 * clients as needed. Should be called on a fresh context, once it has started.
+	 * @param snapshot The saved context state.
+	 * @returns A promise that resolves with the re-created asset containers, in their saved order.
+	 */
+	public restoreSnapshot(snapshot: ContextSnapshot): Promise<AssetContainer[]> {
+		return this.internal.restoreSnapshot(snapshot);
+	}
+
 	/**
 	 * Collect and return a snapshot of the current resource usage of the MRE subsystem. For Node process stats,
 	 * use `process.resourceUsage()`.
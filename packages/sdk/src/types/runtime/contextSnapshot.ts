@@ -0,0 +1,74 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { ActorLike, AssetLike, CreateAnimationOptions, SetAnimationStateOptions, SetMediaStateOptions } from '../..';
+
+/**
+ * The snapshot format version written by this version of the SDK.
+ */
+// tslint:disable-next-line:variable-name
+export const ContextSnapshotVersion = 1;
+
+/**
+ * The saved state of a single actor.
+ */
+export type ActorSnapshot = {
+	/** The actor's properties, as produced by `Actor.toJSON`. */
+	actor: ActorLike;
+	/** The library resource the actor was created from, if any. */
+	resourceId?: string;
+	/** Whether the engine created this actor while instantiating an ancestor, rather than the app. */
+	engineSpawned?: boolean;
+};
+
+/**
+ * The saved state of an asset container.
+ */
+export type AssetContainerSnapshot = {
+	/** The glTF files loaded into the container, and the collider type they were loaded with. */
+	gltfs: Array<{ uri: string, colliderType?: 'box' | 'mesh' }>;
+	/** Definitions of all the assets in the container, loaded or created. */
+	assets: AssetLike[];
+	/**
+	 * The base64-encoded contents of the files the container served from the context's [[BufferHost]], i.e. glTF files
+	 * loaded from buffers and textures created from pixels, by the URL they were served from. Hosted URLs don't
+	 * outlive the container or the process, so the files are served again under new URLs on restore.
+	 */
+	hostedBuffers?: { [uri: string]: string };
+};
+
+/**
+ * The saved state of an animation created with `Actor.createAnimation`.
+ */
+export type AnimationSnapshot = {
+	actorId: string;
+	animationName: string;
+	options: CreateAnimationOptions;
+	/** The last known state of the animation. */
+	state: SetAnimationStateOptions;
+};
+
+/**
+ * The saved state of a playing sound or video stream.
+ */
+export type MediaInstanceSnapshot = {
+	actorId: string;
+	mediaAssetId: string;
+	/** The playback options, with `time` advanced to the moment the snapshot was taken. */
+	options: SetMediaStateOptions;
+};
+
+/**
+ * A serializable copy of the app-side state of a [[Context]], produced by `Context.saveSnapshot` and consumed by
+ * `Context.restoreSnapshot`. Behaviors and event handlers are code, and are not included.
+ */
+export type ContextSnapshot = {
+	version: number;
+	actors: ActorSnapshot[];
+	assetContainers: AssetContainerSnapshot[];
+	animations: AnimationSnapshot[];
+	mediaInstances: MediaInstanceSnapshot[];
+	userGroupMapping: { [id: string]: number };
+};
@@ -5,6 +5,7 @@
 
 export * from './actor';
 export * from './actorTransform';
+export * from './animation';
 export * from './behaviors';
 export * from './context';
 export * from './transform';
@@ -20,3 +21,5 @@ export * from './physics';
 export * from './lookAt';
 export * from './appearance';
 export * from './groupMask';
+export * from './contextSnapshot';
+export * from './changeEvent';
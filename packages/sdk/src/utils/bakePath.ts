@@ -0,0 +1,84 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { AnimationKeyframe, AnimationWrapMode, PathAnimationOptions, PathOrientation } from '../animation';
+import { Curve3, Path3, Quaternion, Vector3 } from '../math';
+
+/**
+ * @hidden
+ * Turn a path into transform keyframes, one per point of the path. Keyframes are timed by the distance along the
+ * path, so the actor moves at a constant speed.
+ * @param path The path to follow, in the actor's parent space.
+ * @param options The speed, orientation and wrap mode of the animation.
+ */
+export default function bakePath(path: Curve3 | Path3 | Vector3[], options: PathAnimationOptions): AnimationKeyframe[] {
+	const up = options.up ? new Vector3(options.up.x, options.up.y, options.up.z) : Vector3.Up();
+	const path3 = path instanceof Path3 ? path : makePath(path instanceof Curve3 ? path.points : path, up);
+	const points = path3.getCurve();
+	const distances = path3.getDistances();
+	const length = distances[distances.length - 1];
+	if (points.length < 2 || !length) {
+		throw new Error("Paths must have at least two distinct points");
+	}
+
+	const closed = points[0].equalsWithEpsilon(points[points.length - 1]);
+	if (options.wrapMode === AnimationWrapMode.Loop && !closed) {
+		throw new Error("Only closed paths can loop. Make the path end where it starts");
+	}
+
+	const duration = options.duration !== undefined ? options.duration : length / options.speed;
+	if (!(duration > 0) || !isFinite(duration)) {
+		throw new Error("Path animations need a positive duration or speed");
+	}
+
+	const rotations = bakeRotations(path3, options.orientation || PathOrientation.None, up);
+	if (rotations && closed) {
+		// Avoid a jump in rotation where a closed path meets itself.
+		rotations[rotations.length - 1] = rotations[0];
+	}
+
+	return points.map((point, i) => ({
+		time: distances[i] / length * duration,
+		value: {
+			transform: {
+				local: {
+					position: point.toJSON(),
+					...(rotations ? { rotation: rotations[i].toJSON() } : {})
+				}
+			}
+		}
+	} as AnimationKeyframe));
+}
+
+function makePath(points: Vector3[], up: Vector3) {
+	// Path3 can't use a first normal parallel to the path, so leave it to pick one then.
+	const start = points.find(point => !point.equalsWithEpsilon(points[0]));
+	const parallel = start && Math.abs(Vector3.Dot(start.subtract(points[0]).normalize(), up.normalizeToNew())) > 0.999;
+	return new Path3(points, parallel ? undefined : up.clone());
+}
+
+function bakeRotations(path: Path3, orientation: PathOrientation, up: Vector3): Quaternion[] {
+	if (orientation === PathOrientation.None) {
+		return undefined;
+	}
+	const tangents = path.getTangents();
+	const normals = path.getNormals();
+	let prev: Quaternion;
+	return tangents.map((tangent, i) => {
+		const forward = tangent.normalizeToNew();
+		let upward = orientation === PathOrientation.Normal ? normals[i] : up;
+		if (Math.abs(Vector3.Dot(forward, upward.normalizeToNew())) > 0.999) {
+			// Facing straight along the up direction, so fall back to the path's own frame.
+			upward = normals[i];
+		}
+		const right = Vector3.Cross(upward, forward).normalize();
+		const rotation = Quaternion.RotationQuaternionFromAxis(right, Vector3.Cross(forward, right), forward);
+		// Keep neighboring keyframes in the same hemisphere, so clients interpolate the short way around.
+		if (prev && Quaternion.Dot(prev, rotation) < 0) {
+			rotation.scaleInPlace(-1);
+		}
+		return prev = rotation;
+	});
+}
@@ -0,0 +1,26 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { AnimationInterpolation, AnimationKeyframe } from '../animation';
+import { BezierCurve } from '../math';
+
+/**
+ * @hidden
+ * Apply a keyframe's interpolation mode and easing curve to the progress from it to the next keyframe, the same way
+ * clients do.
+ * @param frame The keyframe playback is leaving.
+ * @param progress How far playback is towards the next keyframe, from 0 to 1.
+ * @returns The weight of the next keyframe's value.
+ */
+export default function easeKeyframe(frame: AnimationKeyframe, progress: number): number {
+	if (frame.interpolation === AnimationInterpolation.Step) {
+		return progress < 1 ? 0 : 1;
+	} else if (frame.easing) {
+		const [x1, y1, x2, y2] = frame.easing;
+		return BezierCurve.Interpolate(progress, x1, y1, x2, y2);
+	} else {
+		return progress;
+	}
+}
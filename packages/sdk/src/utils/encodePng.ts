@@ -0,0 +1,73 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { deflateSync } from 'zlib';
+
+// tslint:disable:no-bitwise
+
+const signature = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** The CRC-32 remainders of each byte value, as used by PNG chunk checksums. */
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+	let c = n;
+	for (let k = 0; k < 8; k++) {
+		c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+	}
+	return c >>> 0;
+});
+
+/**
+ * @hidden
+ * Encode 8-bit RGBA pixels as a PNG file.
+ * @param width The width of the image, in pixels.
+ * @param height The height of the image, in pixels.
+ * @param rgba The pixels, four bytes each, row by row from the top left.
+ */
+export default function encodePng(width: number, height: number, rgba: Uint8Array): Buffer {
+	if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+		throw new Error(`Invalid image size ${width}x${height}`);
+	}
+	if (rgba.length !== width * height * 4) {
+		throw new Error(`Expected ${width * height * 4} bytes of RGBA pixels for a ${width}x${height} image, ` +
+			`but got ${rgba.length}`);
+	}
+
+	const header = Buffer.alloc(13);
+	header.writeUInt32BE(width, 0);
+	header.writeUInt32BE(height, 4);
+	// 8 bits per channel, truecolor with alpha, default compression, filtering and no interlacing.
+	header.set([8, 6, 0, 0, 0], 8);
+
+	// Each row starts with its filter type, which is always none.
+	const rowLength = width * 4;
+	const scanlines = Buffer.alloc((rowLength + 1) * height);
+	for (let y = 0; y < height; y++) {
+		scanlines.set(rgba.subarray(y * rowLength, (y + 1) * rowLength), y * (rowLength + 1) + 1);
+	}
+
+	return Buffer.concat([
+		signature,
+		chunk('IHDR', header),
+		chunk('IDAT', deflateSync(scanlines)),
+		chunk('IEND', Buffer.alloc(0))
+	]);
+}
+
+function chunk(type: string, data: Buffer) {
+	const typeAndData = Buffer.concat([Buffer.from(type, 'ascii'), data]);
+	const length = Buffer.alloc(4);
+	length.writeUInt32BE(data.length, 0);
+	const crc = Buffer.alloc(4);
+	crc.writeUInt32BE(crc32(typeAndData), 0);
+	return Buffer.concat([length, typeAndData, crc]);
+}
+
+function crc32(data: Buffer) {
+	let c = 0xffffffff;
+	for (const byte of data) {
+		c = crcTable[(c ^ byte) & 0xff] ^ (c >>> 8);
+	}
+	return (c ^ 0xffffffff) >>> 0;
+}
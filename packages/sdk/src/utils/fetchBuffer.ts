@@ -0,0 +1,48 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import * as http from 'http';
+import * as https from 'https';
+import { resolve as urlResolve } from 'url';
+
+/** How many redirects to follow before giving up. */
+const maxRedirects = 5;
+
+/**
+ * @hidden
+ * Download the contents of an http, https or data URI.
+ * @param uri The URI to download.
+ * @param redirects The number of redirects followed so far.
+ * @returns A promise that resolves with the contents, or rejects if they couldn't be downloaded.
+ */
+export default function fetchBuffer(uri: string, redirects = 0): Promise<Buffer> {
+	const data = /^data:[^,]*?(;base64)?,(.*)$/.exec(uri);
+	if (data) {
+		return Promise.resolve(data[1] ?
+			Buffer.from(data[2], 'base64') :
+			Buffer.from(decodeURIComponent(data[2])));
+	}
+
+	const get: typeof http.get = uri.startsWith('https:') ? https.get : uri.startsWith('http:') ? http.get : null;
+	if (!get) {
+		return Promise.reject(new Error(`Cannot fetch ${uri}. Only http, https and data URIs are supported`));
+	}
+	return new Promise<Buffer>((resolve, reject) => {
+		get(uri, res => {
+			if (res.statusCode >= 300 && res.statusCode < 400 && res.headers.location && redirects < maxRedirects) {
+				res.resume();
+				resolve(fetchBuffer(urlResolve(uri, res.headers.location), redirects + 1));
+			} else if (res.statusCode < 200 || res.statusCode >= 300) {
+				res.resume();
+				reject(new Error(`Failed to fetch ${uri}: HTTP ${res.statusCode}`));
+			} else {
+				const chunks: Buffer[] = [];
+				res.on('data', (chunk: Buffer) => chunks.push(chunk));
+				res.on('end', () => resolve(Buffer.concat(chunks)));
+				res.on('error', reject);
+			}
+		}).on('error', reject);
+	});
+}
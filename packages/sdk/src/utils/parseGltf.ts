@@ -0,0 +1,170 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import GLTF from '../gen/gltf';
+import { Matrix, Quaternion, Vector3 } from '../math';
+import { GltfInfo, GltfMeshInfo, GltfNodeInfo, PrefabAnimationLike } from '../types/runtime/assets';
+
+/** The first four bytes of a binary glTF file. */
+const glbMagic = 0x46546c67;
+/** The type of the JSON chunk of a binary glTF file. */
+const jsonChunkType = 0x4e4f534a;
+
+/** The primitive modes that draw triangles. */
+const trianglesMode = 4;
+const triangleStripMode = 5;
+const triangleFanMode = 6;
+
+/**
+ * @hidden
+ * Reads the scene structure, meshes, materials and animations of a glTF file from its JSON, without its binary
+ * buffers. Converts positions and rotations from glTF's right-handed coordinates to the app's left-handed ones, the way
+ * clients do. Throws if the file isn't a valid glTF 2.0 file.
+ * @param data The contents of a .glb or .gltf file.
+ */
+export default function parseGltf(data: Buffer): GltfInfo {
+	const gltf = readJson(data);
+	if (!gltf || typeof gltf !== 'object' || !gltf.asset || !/^2\./.test(gltf.asset.version)) {
+		throw new Error("Not a glTF 2.0 file");
+	}
+	const accessors = gltf.accessors || [];
+	const nodes = gltf.nodes || [];
+
+	const meshes = (gltf.meshes || []).map((mesh): GltfMeshInfo => {
+		let vertexCount = 0;
+		let triangleCount = 0;
+		const min = new Vector3(Infinity, Infinity, Infinity);
+		const max = new Vector3(-Infinity, -Infinity, -Infinity);
+		const materials: number[] = [];
+		for (const primitive of mesh.primitives) {
+			const positions = accessors[primitive.attributes.POSITION];
+			const indices = accessors[primitive.indices];
+			const count = indices ? indices.count : positions ? positions.count : 0;
+			vertexCount += positions ? positions.count : 0;
+			triangleCount += triangles(primitive.mode === undefined ? trianglesMode : primitive.mode, count);
+			if (positions && positions.min && positions.max) {
+				// Mirroring z swaps which end of the range is which.
+				min.minimizeInPlace(new Vector3(positions.min[0], positions.min[1], -positions.max[2]));
+				max.maximizeInPlace(new Vector3(positions.max[0], positions.max[1], -positions.min[2]));
+			}
+			if (primitive.material !== undefined && !materials.includes(primitive.material)) {
+				materials.push(primitive.material);
+			}
+		}
+		const bounded = isFinite(min.x);
+		return {
+			name: mesh.name || '',
+			vertexCount,
+			triangleCount,
+			boundingBoxDimensions: bounded ? max.subtract(min).toJSON() : Vector3.Zero().toJSON(),
+			boundingBoxCenter: bounded ? Vector3.Center(min, max).toJSON() : Vector3.Zero().toJSON(),
+			materials
+		};
+	});
+
+	// Flatten the default scene's hierarchy, parents first.
+	const scene = gltf.scenes && gltf.scenes[gltf.scene || 0];
+	const roots = scene ? scene.nodes || [] : nodes
+		.map((node, i) => i)
+		.filter(i => !nodes.some(node => (node.children || []).includes(i)));
+	const infos: GltfNodeInfo[] = [];
+	const indexOf = new Map<number, number>();
+	const visit = (nodeIndex: number, parent: number) => {
+		const node = nodes[nodeIndex];
+		if (!node || indexOf.has(nodeIndex)) {
+			throw new Error(`Invalid node hierarchy at node ${nodeIndex}`);
+		}
+		const index = infos.length;
+		indexOf.set(nodeIndex, index);
+		infos.push({ name: node.name || '', parent, children: [], mesh: node.mesh, transform: transformOf(node) });
+		for (const child of node.children || []) {
+			infos[index].children.push(infos.length);
+			visit(child, index);
+		}
+	};
+	for (const root of roots) {
+		visit(root, -1);
+	}
+
+	const animations = (gltf.animations || []).map((animation): PrefabAnimationLike => {
+		const targetNames = animation.channels
+			.filter(channel => channel.target.node !== undefined && nodes[channel.target.node])
+			.map(channel => nodes[channel.target.node].name || '');
+		const times = animation.samplers
+			.map(sampler => accessors[sampler.input])
+			.filter(input => input && input.max)
+			.map(input => input.max[0]);
+		return {
+			name: animation.name || '',
+			duration: Math.max(0, ...times),
+			targetNames: targetNames.filter((name, i) => targetNames.indexOf(name) === i)
+		};
+	});
+
+	return {
+		nodes: infos,
+		meshes,
+		materials: (gltf.materials || []).map(material => {
+			const pbr = material.pbrMetallicRoughness;
+			const [r, g, b, a] = pbr && pbr.baseColorFactor || [1, 1, 1, 1];
+			return { name: material.name || '', color: { r, g, b, a } };
+		}),
+		animations,
+		actorCount: infos.length + 1
+	};
+}
+
+function readJson(data: Buffer): GLTF.GlTf {
+	if (data.length >= 20 && data.readUInt32LE(0) === glbMagic) {
+		const length = data.readUInt32LE(12);
+		if (data.readUInt32LE(16) !== jsonChunkType || 20 + length > data.length) {
+			throw new Error("Invalid binary glTF file");
+		}
+		return JSON.parse(data.toString('utf8', 20, 20 + length));
+	}
+	try {
+		// Strip any byte order mark.
+		return JSON.parse(data.toString('utf8').replace(/^\uFEFF/, ''));
+	} catch (e) {
+		throw new Error(`Not a glTF 2.0 file: ${e.message}`);
+	}
+}
+
+function triangles(mode: number, indexCount: number) {
+	switch (mode) {
+		case trianglesMode:
+			return Math.floor(indexCount / 3);
+		case triangleStripMode:
+		case triangleFanMode:
+			return Math.max(0, indexCount - 2);
+		default:
+			// Points and lines have no triangles.
+			return 0;
+	}
+}
+
+/** Get a node's local transform, mirrored along z into left-handed coordinates. */
+function transformOf(node: GLTF.Node) {
+	const position = Vector3.Zero();
+	const rotation = Quaternion.Identity();
+	const scale = Vector3.One();
+	if (node.matrix) {
+		Matrix.FromArray(node.matrix).decompose(scale, rotation, position);
+	} else {
+		if (node.translation) {
+			position.copyFromFloats(node.translation[0], node.translation[1], node.translation[2]);
+		}
+		if (node.rotation) {
+			rotation.copyFromFloats(node.rotation[0], node.rotation[1], node.rotation[2], node.rotation[3]);
+		}
+		if (node.scale) {
+			scale.copyFromFloats(node.scale[0], node.scale[1], node.scale[2]);
+		}
+	}
+	position.z = -position.z;
+	rotation.x = -rotation.x;
+	rotation.y = -rotation.y;
+	return { position: position.toJSON(), rotation: rotation.toJSON(), scale: scale.toJSON() };
+}
@@ -0,0 +1,159 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * @hidden
+ * Actor components that can be tested for with an attribute selector, e.g. `[light]`.
+ */
+export type SelectorComponent = 'light' | 'text' | 'rigidBody' | 'collider';
+
+/**
+ * @hidden
+ * Conditions an actor must all meet to match, e.g. `#door.interactive[collider]`.
+ */
+export type CompoundSelector = {
+	names: string[];
+	tags: string[];
+	components: SelectorComponent[];
+};
+
+/**
+ * @hidden
+ * A chain of compound selectors. `combinators[i]` relates `compounds[i]` to `compounds[i + 1]`.
+ */
+export type ComplexSelector = {
+	compounds: CompoundSelector[];
+	combinators: Array<'child' | 'descendant'>;
+};
+
+/**
+ * @hidden
+ * A comma-separated list of complex selectors. An actor matching any of them matches the list.
+ */
+export type Selector = ComplexSelector[];
+
+const components: SelectorComponent[] = ['light', 'text', 'rigidBody', 'collider'];
+const identifierChar = /[^\s,>#.\[\]="'*]/;
+
+/**
+ * @hidden
+ * Parse a CSS-like actor selector. Supported syntax:
+ * - `#name` matches actor names, `.tag` matches actor tags, and `*` matches anything.
+ * - `[light]`, `[text]`, `[rigidBody]` and `[collider]` match actors with that component.
+ * - `[name="a name"]` and `[tag="a tag"]` match names and tags that aren't simple identifiers.
+ * - `a b` matches `b` descended from `a`, and `a > b` matches `b` parented directly to `a`.
+ * - `a, b` matches either `a` or `b`.
+ */
+export default function parseSelector(selector: string): Selector {
+	let pos = 0;
+	const fail = (reason: string): never => {
+		throw new Error(`Invalid selector "${selector}" at position ${pos}: ${reason}`);
+	};
+	const skipWhitespace = () => {
+		const start = pos;
+		while (pos < selector.length && /\s/.test(selector[pos])) {
+			pos++;
+		}
+		return pos > start;
+	};
+	const readIdentifier = () => {
+		const start = pos;
+		while (pos < selector.length && identifierChar.test(selector[pos])) {
+			pos++;
+		}
+		return pos > start ? selector.substring(start, pos) : fail("expected an identifier");
+	};
+	const readValue = () => {
+		const quote = selector[pos];
+		if (quote !== '"' && quote !== "'") {
+			return readIdentifier();
+		}
+		const end = selector.indexOf(quote, pos + 1);
+		if (end < 0) {
+			fail("unterminated string");
+		}
+		const value = selector.substring(pos + 1, end);
+		pos = end + 1;
+		return value;
+	};
+	const readAttribute = (compound: CompoundSelector) => {
+		pos++;
+		skipWhitespace();
+		const attribute = readIdentifier();
+		skipWhitespace();
+		if (selector[pos] === '=') {
+			pos++;
+			skipWhitespace();
+			const value = readValue();
+			if (attribute === 'name') {
+				compound.names.push(value);
+			} else if (attribute === 'tag') {
+				compound.tags.push(value);
+			} else {
+				fail(`unknown attribute "${attribute}"`);
+			}
+		} else {
+			const component = components.find(c => c.toLowerCase() === attribute.toLowerCase());
+			if (!component) {
+				fail(`unknown component "${attribute}"`);
+			}
+			compound.components.push(component);
+		}
+		skipWhitespace();
+		if (selector[pos] !== ']') {
+			fail("expected ']'");
+		}
+		pos++;
+	};
+	const readCompound = () => {
+		const compound: CompoundSelector = { names: [], tags: [], components: [] };
+		const start = pos;
+		while (pos < selector.length) {
+			const c = selector[pos];
+			if (c === '*') {
+				pos++;
+			} else if (c === '#') {
+				pos++;
+				compound.names.push(readIdentifier());
+			} else if (c === '.') {
+				pos++;
+				compound.tags.push(readIdentifier());
+			} else if (c === '[') {
+				readAttribute(compound);
+			} else {
+				break;
+			}
+		}
+		return pos > start ? compound : fail("expected a selector");
+	};
+
+	const result: Selector = [];
+	skipWhitespace();
+	while (true) {
+		const complex: ComplexSelector = { compounds: [readCompound()], combinators: [] };
+		while (true) {
+			const sawWhitespace = skipWhitespace();
+			if (pos >= selector.length || selector[pos] === ',') {
+				break;
+			}
+			if (selector[pos] === '>') {
+				pos++;
+				skipWhitespace();
+				complex.combinators.push('child');
+			} else if (sawWhitespace) {
+				complex.combinators.push('descendant');
+			} else {
+				fail(`unexpected '${selector[pos]}'`);
+			}
+			complex.compounds.push(readCompound());
+		}
+		result.push(complex);
+		if (pos >= selector.length) {
+			return result;
+		}
+		pos++;
+		skipWhitespace();
+	}
+}
@@ -0,0 +1,12 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+/**
+ * @hidden
+ * Test whether a dot-separated property path is `prefix` or nested under it. An empty prefix matches every path.
+ */
+export default function pathStartsWith(path: string, prefix: string): boolean {
+	return !prefix || path === prefix || path.startsWith(prefix + '.');
+}
@@ -0,0 +1,98 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { AnimationInterpolation, AnimationKeyframe, AnimationKeyframeValue } from '../animation';
+import { Quaternion } from '../math';
+import easeKeyframe from './easeKeyframe';
+import { animatableComponents, animatableProperties } from './validateKeyframes';
+
+/** The keyframes that give a value for one property, or one component of a property. */
+type Track = Array<{ frame: AnimationKeyframe, value: any }>;
+
+/**
+ * @hidden
+ * Computes the animated values at a time within an animation, the way clients interpolate its keyframes. Each value is
+ * interpolated between the keyframes that specify it, and held at the first and last of them outside their range.
+ * @param keyframes The animation's keyframes, in order of time.
+ * @param time The animation time, in seconds.
+ * @returns The value of every property the keyframes animate.
+ */
+export default function sampleKeyframes(keyframes: AnimationKeyframe[], time: number): AnimationKeyframeValue {
+	const result: any = {};
+	for (const path of Object.keys(animatableProperties)) {
+		const keys = path.split('.');
+		const type = animatableProperties[path];
+		const components = animatableComponents[type];
+		let value: any;
+		if (type === 'number') {
+			value = sampleTrack(trackOf(keyframes, keys), time, sampleNumber);
+		} else if (type === 'quaternion') {
+			// Rotations are interpolated as a whole, so missing components default to identity.
+			const track = trackOf(keyframes, keys)
+				.map(({ frame, value: rotation }) => ({ frame, value: Quaternion.Identity().copy(rotation) }));
+			value = sampleTrack(track, time, sampleRotation);
+			value = value && value.toJSON();
+		} else {
+			for (const component of components) {
+				const sampled = sampleTrack(trackOf(keyframes, [...keys, component]), time, sampleNumber);
+				if (sampled !== undefined) {
+					value = { ...value, [component]: sampled };
+				}
+			}
+		}
+		if (value !== undefined) {
+			const last = keys.pop();
+			const parent = keys.reduce((obj, key) => obj[key] = obj[key] || {}, result);
+			parent[last] = value;
+		}
+	}
+	return result;
+}
+
+function trackOf(keyframes: AnimationKeyframe[], keys: string[]): Track {
+	const track: Track = [];
+	for (const frame of keyframes) {
+		const value = keys.reduce((obj: any, key) => obj ? obj[key] : undefined, frame.value);
+		if (value !== undefined) {
+			track.push({ frame, value });
+		}
+	}
+	return track;
+}
+
+function sampleTrack<T>(track: Track, time: number, sample: (track: Track, i: number, weight: number) => T): T {
+	if (!track.length) {
+		return undefined;
+	} else if (time <= track[0].frame.time) {
+		return track[0].value;
+	} else if (time >= track[track.length - 1].frame.time) {
+		return track[track.length - 1].value;
+	}
+	let i = 0;
+	while (track[i + 1].frame.time <= time) {
+		i++;
+	}
+	const from = track[i].frame;
+	const progress = (time - from.time) / (track[i + 1].frame.time - from.time);
+	return sample(track, i, easeKeyframe(from, progress));
+}
+
+/** Interpolate between the i'th and next values, along a Catmull-Rom spline for cubic interpolation. */
+function sampleNumber(track: Track, i: number, weight: number): number {
+	const p1: number = track[i].value;
+	const p2: number = track[i + 1].value;
+	if (track[i].frame.interpolation !== AnimationInterpolation.Cubic) {
+		return p1 + (p2 - p1) * weight;
+	}
+	const p0: number = i > 0 ? track[i - 1].value : p1;
+	const p3: number = i + 2 < track.length ? track[i + 2].value : p2;
+	const w2 = weight * weight;
+	const w3 = w2 * weight;
+	return 0.5 * (2 * p1 + (p2 - p0) * weight + (2 * p0 - 5 * p1 + 4 * p2 - p3) * w2 + (3 * p1 - p0 - 3 * p2 + p3) * w3);
+}
+
+function sampleRotation(track: Track, i: number, weight: number): Quaternion {
+	return Quaternion.Slerp(track[i].value, track[i + 1].value, weight);
+}
@@ -0,0 +1,105 @@
+/*!
+ * Copyright (c) Microsoft Corporation. All rights reserved.
+ * Licensed under the MIT License.
+ */
+
+import { AnimationInterpolation, AnimationKeyframe } from '../animation';
+
+/**
+ * @hidden
+ * The types of value an animation can interpolate.
+ */
+export type AnimatableType = 'number' | 'vector2' | 'vector3' | 'quaternion' | 'color3' | 'color4';
+
+/**
+ * @hidden
+ * The properties keyframes can animate, by path, and the type of their values.
+ */
+export const animatableProperties: { [path: string]: AnimatableType } = {
+	'transform.local.position': 'vector3',
+	'transform.local.rotation': 'quaternion',
+	'transform.local.scale': 'vector3',
+	'light.color': 'color3',
+	'light.intensity': 'number',
+	'light.range': 'number',
+	'text.color': 'color3',
+	'text.height': 'number',
+	'material.color': 'color4',
+	'material.mainTextureOffset': 'vector2',
+	'material.mainTextureScale': 'vector2',
+	'material.emissiveColor': 'color3',
+	'material.metallic': 'number',
+	'material.roughness': 'number',
+	'material.normalScale': 'number',
+	'material.occlusionStrength': 'number',
+	'media.volume': 'number',
+};
+
+/**
+ * @hidden
+ * The fields of each composite animatable type.
+ */
+export const animatableComponents: { [type in AnimatableType]: string[] } = {
+	number: [],
+	vector2: ['x', 'y'],
+	vector3: ['x', 'y', 'z'],
+	quaternion: ['x', 'y', 'z', 'w'],
+	color3: ['r', 'g', 'b'],
+	color4: ['r', 'g', 'b', 'a'],
+};
+
+/**
+ * @hidden
+ * Verifies that keyframes are in order of time, and only animate supported properties with values of the right type,
+ * so mistakes are caught in the app rather than handled differently by each client. Throws if not.
+ */
+export default function validateKeyframes(keyframes: AnimationKeyframe[]) {
+	if (!Array.isArray(keyframes) || !keyframes.length) {
+		throw new Error("Animations must have at least one keyframe");
+	}
+	let prevTime = 0;
+	for (const frame of keyframes) {
+		if (typeof frame.time !== 'number' || !isFinite(frame.time) || frame.time < prevTime) {
+			throw new Error(`Invalid keyframe time ${frame.time}. Keyframes must be in order of non-negative time`);
+		}
+		prevTime = frame.time;
+		if (frame.interpolation !== undefined &&
+			!Object.values(AnimationInterpolation).includes(frame.interpolation)) {
+			throw new Error(`Invalid interpolation "${frame.interpolation}" at time ${frame.time}`);
+		}
+		if (frame.easing !== undefined && !isBezierCurve(frame.easing)) {
+			throw new Error(`Invalid easing at time ${frame.time}. Expected the four numbers of a cubic-bezier curve, ` +
+				"with x coordinates between 0 and 1. Try passing one of the predefined curves from `AnimationEaseCurves`");
+		}
+		validateValue(frame.value, '', frame.time);
+	}
+}
+
+function isBezierCurve(curve: number[]) {
+	return Array.isArray(curve) && curve.length === 4 && curve.every(n => typeof n === 'number' && isFinite(n)) &&
+		curve[0] >= 0 && curve[0] <= 1 && curve[2] >= 0 && curve[2] <= 1;
+}
+
+function validateValue(value: any, path: string, time: number) {
+	const type = animatableProperties[path];
+	if (type === 'number') {
+		if (typeof value !== 'number' || !isFinite(value)) {
+			throw new Error(`Invalid value for "${path}" at time ${time}. Expected a number`);
+		}
+	} else if (type) {
+		const components = animatableComponents[type];
+		if (!value || typeof value !== 'object' ||
+			Object.keys(value).some(key => !components.includes(key) || typeof value[key] !== 'number')) {
+			throw new Error(`Invalid value for "${path}" at time ${time}. ` +
+				`Expected a ${type} with numeric fields ${components.join(', ')}`);
+		}
+	} else if (path && !Object.keys(animatableProperties).some(p => p.startsWith(path + '.'))) {
+		throw new Error(`Cannot animate "${path}"`);
+	} else if (!value || typeof value !== 'object') {
+		throw new Error(`Invalid value for "${path || 'value'}" at time ${time}. Expected an object`);
+	} else {
+		for (const key of Object.keys(value)) {
+			validateValue(value[key], path ? `${path}.${key}` : key, time);
+		}
+	}
+}
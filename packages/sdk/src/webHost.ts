@@ -4,7 +4,7 @@
  */
 
 import * as Restify from 'restify';
-import { Adapter, MultipeerAdapter } from '.';
+import { Adapter, BufferHost, MultipeerAdapter } from '.';
 import { log } from './log';
 
 import { resolve as urlResolve } from 'url';
@@ -15,13 +15,30 @@ const BUFFER_KEYWORD = 'buffers';
  * Sets up an HTTP server, and generates an MRE context for your app to use.
  */
 export class WebHost {
+	/** The host whose base URL relative URIs are resolved against. */
+	private static primary: WebHost;
+
+	/**
+	 * @hidden
+	 * Resolve a URI relative to the app's base URL, the way clients do. Absolute URIs, and relative ones when no host
+	 * is running yet, are returned unchanged.
+	 * @param uri The URI to resolve.
+	 */
+	public static resolveUrl(uri: string) {
+		const host = WebHost.primary;
+		return host && host.baseUrl ? urlResolve(host.baseUrl.replace(/\/?$/, '/'), uri) : uri;
+	}
+
 	// tslint:disable:variable-name
 	private _adapter: Adapter;
+	private _bufferHost = new BufferHost();
 	private _baseDir: string;
 	private _baseUrl: string;
 	// tslint:enable:variable-name
 
 	public get adapter() { return this._adapter; }
+	/** Serves buffers for the asset containers of this host's apps, alongside its static files. */
+	public get bufferHost() { return this._bufferHost; }
 	public get baseDir() { return this._baseDir; }
 	public get baseUrl() { return this._baseUrl; }
 
@@ -43,20 +60,33 @@ export class WebHost {
 		}
 
 		// Resolve the port number. Heroku defines a PORT environment var (remapped from 80).
-		const port = options.port || process.env.PORT || 3901;
+		const port = options.port !== undefined ? options.port : process.env.PORT || 3901;
 
 		// Create a Multi-peer adapter
-		this._adapter = new MultipeerAdapter({ port });
+		this._adapter = new MultipeerAdapter({ port, bufferHost: this._bufferHost });
+		WebHost.primary = WebHost.primary || this;
 
 		// Start listening for new app connections from a multi-peer client.
 		this._adapter.listen()
 			.then(server => {
 				this._baseUrl = this._baseUrl || server.url.replace(/\[::\]/, '127.0.0.1');
+				this._bufferHost.baseUrl = this._baseUrl;
 				log.info('app', `${server.name} listening on ${JSON.stringify(server.address())}`);
 				log.info('app', `baseUrl: ${this.baseUrl}`);
 				log.info('app', `baseDir: ${this.baseDir}`);
 				if (!!this.baseDir) {
 					this.serveStaticFiles(server);
+				} else {
+					// Hosted buffers are served even without static files.
+					server.get(`/${BUFFER_KEYWORD}/*`, (req, res, next) => {
+						const blob = this.findStaticBuffer(req.url);
+						if (blob) {
+							res.sendRaw(200, blob);
+						} else {
+							res.send(404);
+						}
+						next();
+					});
 				}
 			})
 			.catch(reason => log.error('app', `Failed to start HTTP server: ${reason}`));
@@ -77,20 +107,24 @@ export class WebHost {
 	private readonly bufferRegex = new RegExp(`^/${BUFFER_KEYWORD}/(.+)$`);
 
 	private serveStaticBuffers(req: Restify.Request, res: Restify.Response, next: Restify.Next) {
-		// grab path part of URL
-		const matches = this.bufferRegex.exec(req.url);
-		const procPath = matches && matches[1] || null;
-
-		// see if there's a handler registered for it
-		if (!procPath || !this.bufferMap[procPath]) {
+		// see if there's a buffer registered for the URL
+		const blob = this.findStaticBuffer(req.url);
+		if (!blob) {
 			return next();
 		}
 
 		// if so, serve binary
-		res.sendRaw(200, this.bufferMap[procPath]);
+		res.sendRaw(200, blob);
 		next();
 	}
 
+	private findStaticBuffer(url: string): Buffer {
+		// grab path part of URL
+		const matches = this.bufferRegex.exec(url);
+		const procPath = matches && matches[1] || null;
+		return procPath && (this.bufferMap[procPath] || this._bufferHost.hostedBuffer(procPath));
+	}
+
 	/**
 	 * Serve arbitrary binary blobs from a URL
 	 * @param filename A unique string ID for the blob